@@ -0,0 +1,208 @@
+'use client';
+
+/**
+ * Step timeline
+ * Renders the run's steps as a collapsible tree (groups contain their child steps)
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { StepListItem } from '@/lib/api';
+
+interface StepNode {
+  step: StepListItem;
+  children: StepNode[];
+}
+
+// Helper to check if a step is problematic
+function isProblematicStep(step: StepListItem): boolean {
+  return step.metrics.eliminationRatio > 0.8;
+}
+
+// Helper to format duration
+function formatDuration(startedAt: string, completedAt: string | null): string {
+  if (!completedAt) return 'Running...';
+  const start = new Date(startedAt).getTime();
+  const end = new Date(completedAt).getTime();
+  const ms = end - start;
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  if (minutes > 0) {
+    return `${minutes}m ${seconds % 60}s`;
+  }
+  return `${seconds}s`;
+}
+
+// Helper to nest steps under their parents (steps arrive ordered by start time)
+function buildStepTree(steps: StepListItem[]): StepNode[] {
+  const nodes = new Map<string, StepNode>();
+  steps.forEach((step) => nodes.set(step.id, { step, children: [] }));
+
+  const roots: StepNode[] = [];
+  steps.forEach((step) => {
+    const node = nodes.get(step.id)!;
+    const parent = step.parentStepId ? nodes.get(step.parentStepId) : undefined;
+    // Orphans (parent not stored yet) are shown at the top level
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+  return roots;
+}
+
+export default function StepTimeline({
+  runId,
+  steps,
+}: {
+  runId: string;
+  steps: StepListItem[];
+}) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggle = (stepId: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(stepId)) {
+        next.delete(stepId);
+      } else {
+        next.add(stepId);
+      }
+      return next;
+    });
+  };
+
+  const renderNode = (node: StepNode, level: number): JSX.Element[] => {
+    const { step } = node;
+    const isGroup = step.type === 'group';
+    const isProblematic = isProblematicStep(step);
+    const isCollapsed = collapsed.has(step.id);
+    const eliminationRatio = step.metrics.eliminationRatio;
+
+    const row = (
+      <tr
+        key={step.id}
+        style={{
+          borderBottom: '1px solid #eee',
+          backgroundColor: isProblematic ? '#fff3cd' : isGroup ? '#f8f9fa' : 'transparent',
+        }}
+      >
+        <td style={{ padding: '8px', paddingLeft: `${8 + level * 20}px` }}>
+          {node.children.length > 0 ? (
+            <button
+              onClick={() => toggle(step.id)}
+              style={{
+                marginRight: '6px',
+                border: 'none',
+                background: 'none',
+                cursor: 'pointer',
+                padding: 0,
+                width: '14px',
+              }}
+              aria-label={isCollapsed ? 'Expand' : 'Collapse'}
+            >
+              {isCollapsed ? '▸' : '▾'}
+            </button>
+          ) : (
+            <span style={{ display: 'inline-block', width: '20px' }} />
+          )}
+          <strong>{step.name}</strong>
+          {isGroup && (
+            <span style={{ marginLeft: '8px', color: '#6c757d', fontSize: '12px' }}>
+              ({node.children.length} step{node.children.length === 1 ? '' : 's'})
+            </span>
+          )}
+          {isProblematic && (
+            <span style={{ marginLeft: '8px', color: '#dc3545' }}>⚠</span>
+          )}
+        </td>
+        <td style={{ padding: '8px' }}>
+          <span
+            style={{
+              padding: '2px 6px',
+              borderRadius: '4px',
+              backgroundColor: '#e9ecef',
+              fontSize: '12px',
+            }}
+          >
+            {step.type}
+          </span>
+        </td>
+        <td style={{ padding: '8px' }}>
+          {formatDuration(step.startedAt, step.completedAt)}
+        </td>
+        {isGroup ? (
+          // Groups make no decisions themselves - see their child steps
+          <td colSpan={6} style={{ padding: '8px', color: '#6c757d' }}>
+            -
+          </td>
+        ) : (
+          <>
+            <td style={{ padding: '8px' }}>
+              {step.metrics.inputCount.toLocaleString()}
+            </td>
+            <td style={{ padding: '8px' }}>
+              {step.metrics.outputCount.toLocaleString()}
+            </td>
+            <td
+              style={{
+                padding: '8px',
+                color: isProblematic ? '#dc3545' : 'inherit',
+                fontWeight: isProblematic ? 'bold' : 'normal',
+              }}
+            >
+              {(eliminationRatio * 100).toFixed(1)}%
+            </td>
+            <td style={{ padding: '8px', color: '#28a745' }}>
+              {step.metrics.keptCount.toLocaleString()}
+            </td>
+            <td style={{ padding: '8px', color: '#dc3545' }}>
+              {step.metrics.eliminatedCount.toLocaleString()}
+            </td>
+            <td style={{ padding: '8px', color: '#ffc107' }}>
+              {step.metrics.scoredCount.toLocaleString()}
+            </td>
+          </>
+        )}
+        <td style={{ padding: '8px' }}>
+          {!isGroup && (
+            <Link
+              href={`/runs/${runId}/steps/${step.id}`}
+              style={{ color: '#0066cc', textDecoration: 'none' }}
+            >
+              View Details →
+            </Link>
+          )}
+        </td>
+      </tr>
+    );
+
+    if (isCollapsed) {
+      return [row];
+    }
+    return [row, ...node.children.flatMap((child) => renderNode(child, level + 1))];
+  };
+
+  const tree = buildStepTree(steps);
+
+  return (
+    <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '20px' }}>
+      <thead>
+        <tr style={{ borderBottom: '2px solid #ccc', textAlign: 'left' }}>
+          <th style={{ padding: '8px' }}>Step</th>
+          <th style={{ padding: '8px' }}>Type</th>
+          <th style={{ padding: '8px' }}>Duration</th>
+          <th style={{ padding: '8px' }}>Input</th>
+          <th style={{ padding: '8px' }}>Output</th>
+          <th style={{ padding: '8px' }}>Elimination Ratio</th>
+          <th style={{ padding: '8px' }}>Kept</th>
+          <th style={{ padding: '8px' }}>Eliminated</th>
+          <th style={{ padding: '8px' }}>Scored</th>
+          <th style={{ padding: '8px' }}>Actions</th>
+        </tr>
+      </thead>
+      <tbody>{tree.flatMap((node) => renderNode(node, 0))}</tbody>
+    </table>
+  );
+}
@@ -7,6 +7,17 @@ import { fetchStep, StepDetail, DecisionEventReference } from '@/lib/api';
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
 
+// Badge colors per decision outcome
+const OUTCOME_BADGE_STYLES: Record<string, { backgroundColor: string; color: string }> = {
+  kept: { backgroundColor: '#d4edda', color: '#155724' },
+  eliminated: { backgroundColor: '#f8d7da', color: '#721c24' },
+  scored: { backgroundColor: '#fff3cd', color: '#856404' },
+  modified: { backgroundColor: '#d1ecf1', color: '#0c5460' },
+  added: { backgroundColor: '#cce5ff', color: '#004085' },
+  merged: { backgroundColor: '#e2e3e5', color: '#383d41' },
+  errored: { backgroundColor: '#f5c6cb', color: '#491217' },
+};
+
 export default async function StepDetailPage({
   params,
 }: {
@@ -27,6 +38,10 @@ export default async function StepDetailPage({
     kept: step.decisionEvents.filter((e) => e.outcome === 'kept'),
     eliminated: step.decisionEvents.filter((e) => e.outcome === 'eliminated'),
     scored: step.decisionEvents.filter((e) => e.outcome === 'scored'),
+    modified: step.decisionEvents.filter((e) => e.outcome === 'modified'),
+    added: step.decisionEvents.filter((e) => e.outcome === 'added'),
+    merged: step.decisionEvents.filter((e) => e.outcome === 'merged'),
+    errored: step.decisionEvents.filter((e) => e.outcome === 'errored'),
   };
 
   return (
@@ -99,6 +114,36 @@ export default async function StepDetailPage({
               {step.metrics.scoredCount.toLocaleString()}
             </td>
           </tr>
+          <tr style={{ borderBottom: '1px solid #eee' }}>
+            <td style={{ padding: '8px', fontWeight: 'bold' }}>Modified</td>
+            <td style={{ padding: '8px' }}>
+              {step.metrics.modifiedCount.toLocaleString()}
+            </td>
+          </tr>
+          <tr style={{ borderBottom: '1px solid #eee' }}>
+            <td style={{ padding: '8px', fontWeight: 'bold' }}>Added</td>
+            <td style={{ padding: '8px' }}>
+              {step.metrics.addedCount.toLocaleString()}
+            </td>
+          </tr>
+          <tr style={{ borderBottom: '1px solid #eee' }}>
+            <td style={{ padding: '8px', fontWeight: 'bold' }}>Merged</td>
+            <td style={{ padding: '8px' }}>
+              {step.metrics.mergedCount.toLocaleString()}
+            </td>
+          </tr>
+          <tr style={{ borderBottom: '1px solid #eee' }}>
+            <td style={{ padding: '8px', fontWeight: 'bold' }}>Errored</td>
+            <td style={{ padding: '8px', color: step.metrics.erroredCount > 0 ? '#dc3545' : 'inherit' }}>
+              {step.metrics.erroredCount.toLocaleString()}
+            </td>
+          </tr>
+          <tr style={{ borderBottom: '1px solid #eee' }}>
+            <td style={{ padding: '8px', fontWeight: 'bold' }}>Mean Rank Displacement</td>
+            <td style={{ padding: '8px' }}>
+              {step.metrics.meanRankDisplacement.toFixed(2)} positions
+            </td>
+          </tr>
         </tbody>
       </table>
 
@@ -111,9 +156,21 @@ export default async function StepDetailPage({
         <span style={{ marginRight: '16px', color: '#dc3545' }}>
           <strong>Eliminated:</strong> {byOutcome.eliminated.length}
         </span>
-        <span style={{ color: '#ffc107' }}>
+        <span style={{ marginRight: '16px', color: '#ffc107' }}>
           <strong>Scored:</strong> {byOutcome.scored.length}
         </span>
+        <span style={{ marginRight: '16px', color: '#0c5460' }}>
+          <strong>Modified:</strong> {byOutcome.modified.length}
+        </span>
+        <span style={{ marginRight: '16px', color: '#004085' }}>
+          <strong>Added:</strong> {byOutcome.added.length}
+        </span>
+        <span style={{ marginRight: '16px', color: '#6c757d' }}>
+          <strong>Merged:</strong> {byOutcome.merged.length}
+        </span>
+        <span style={{ color: '#dc3545' }}>
+          <strong>Errored:</strong> {byOutcome.errored.length}
+        </span>
       </div>
 
       <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '10px' }}>
@@ -141,18 +198,7 @@ export default async function StepDetailPage({
                   style={{
                     padding: '2px 6px',
                     borderRadius: '4px',
-                    backgroundColor:
-                      event.outcome === 'kept'
-                        ? '#d4edda'
-                        : event.outcome === 'eliminated'
-                        ? '#f8d7da'
-                        : '#fff3cd',
-                    color:
-                      event.outcome === 'kept'
-                        ? '#155724'
-                        : event.outcome === 'eliminated'
-                        ? '#721c24'
-                        : '#856404',
+                    ...(OUTCOME_BADGE_STYLES[event.outcome] ?? OUTCOME_BADGE_STYLES.scored),
                     fontSize: '12px',
                   }}
                 >
@@ -4,6 +4,19 @@
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_QUERY_API_URL || 'http://localhost:3001';
 
+// Server-side only (pages fetch in server components) - never exposed to the browser
+const API_KEY = process.env.XRAY_API_KEY;
+
+/**
+ * Fetch from the query API, authenticated when a key is configured
+ */
+function queryApi(path: string): Promise<Response> {
+  return fetch(`${API_BASE_URL}${path}`, {
+    cache: 'no-store',
+    headers: API_KEY ? { 'X-API-Key': API_KEY } : undefined,
+  });
+}
+
 export interface RunListItem {
   id: string;
   pipelineId: string;
@@ -22,6 +35,8 @@ export interface RunListItem {
 export interface StepListItem {
   id: string;
   runId: string;
+  parentStepId: string | null;
+  depth: number;
   pipelineId: string;
   type: string;
   name: string;
@@ -34,6 +49,11 @@ export interface StepListItem {
     keptCount: number;
     eliminatedCount: number;
     scoredCount: number;
+    modifiedCount: number;
+    addedCount: number;
+    mergedCount: number;
+    erroredCount: number;
+    meanRankDisplacement: number;
   };
 }
 
@@ -67,6 +87,8 @@ export interface DecisionEventReference {
 export interface StepDetail {
   id: string;
   runId: string;
+  parentStepId: string | null;
+  depth: number;
   pipelineId: string;
   type: string;
   name: string;
@@ -79,6 +101,11 @@ export interface StepDetail {
     keptCount: number;
     eliminatedCount: number;
     scoredCount: number;
+    modifiedCount: number;
+    addedCount: number;
+    mergedCount: number;
+    erroredCount: number;
+    meanRankDisplacement: number;
   };
   decisionEvents: DecisionEventReference[];
 }
@@ -87,8 +114,7 @@ export interface StepDetail {
  * Fetch runs list
  */
 export async function fetchRuns(badFilter: boolean = false): Promise<RunListItem[]> {
-  const url = `${API_BASE_URL}/runs${badFilter ? '?bad_filter=true' : ''}`;
-  const response = await fetch(url, { cache: 'no-store' });
+  const response = await queryApi(`/runs${badFilter ? '?bad_filter=true' : ''}`);
   
   if (!response.ok) {
     throw new Error(`Failed to fetch runs: ${response.statusText}`);
@@ -102,8 +128,7 @@ export async function fetchRuns(badFilter: boolean = false): Promise<RunListItem
  * Fetch run details
  */
 export async function fetchRun(runId: string): Promise<RunDetail> {
-  const url = `${API_BASE_URL}/runs/${runId}`;
-  const response = await fetch(url, { cache: 'no-store' });
+  const response = await queryApi(`/runs/${runId}`);
   
   if (!response.ok) {
     throw new Error(`Failed to fetch run: ${response.statusText}`);
@@ -117,8 +142,7 @@ export async function fetchRun(runId: string): Promise<RunDetail> {
  * Fetch step details
  */
 export async function fetchStep(stepId: string): Promise<StepDetail> {
-  const url = `${API_BASE_URL}/steps/${stepId}/details`;
-  const response = await fetch(url, { cache: 'no-store' });
+  const response = await queryApi(`/steps/${stepId}/details`);
   
   if (!response.ok) {
     throw new Error(`Failed to fetch step: ${response.statusText}`);
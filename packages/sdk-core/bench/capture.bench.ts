@@ -0,0 +1,131 @@
+/**
+ * Benchmark: decision capture overhead vs business logic
+ *
+ * Measures, for growing step sizes:
+ * - the business logic alone (a score filter over N candidates)
+ * - the same logic wrapped in xray.step (SAMPLED capture)
+ * - the input/output diff on its own
+ *
+ * Capture must scale linearly with the step size, so per-item overhead stays
+ * flat and its share of the step time doesn't grow. The run fails if:
+ * - the per-item diff cost at the largest size exceeds MAX_PER_ITEM_GROWTH
+ *   times the cost at the smallest size (a quadratic diff grows ~100x here)
+ * - capture overhead at the largest size exceeds MAX_OVERHEAD_RATIO times the
+ *   business logic (smaller sizes are dominated by fixed per-step cost)
+ *
+ * Trade-off: The logic is a bare array filter, about the cheapest step a
+ * pipeline can have, so the ratio budget is generous - it covers classifying
+ * every item (the diff), which a filter this cheap can't amortize. Building an
+ * event per item instead of per sampled item costs ~200x on its own.
+ *
+ * Type-checked by `npm run build` (bench/tsconfig.json). Run: npm run bench
+ */
+
+import { XRStepType } from '@xray/shared-types';
+import { XRay, CaptureLevel } from '../src';
+import { diffItems } from '../src/diff';
+import { createItemKeyResolver } from '../src/identity';
+
+interface Candidate {
+  id: string;
+  score: number;
+  category: string;
+}
+
+const SIZES = [1_000, 10_000, 50_000, 100_000];
+const ITERATIONS = 5;
+const MAX_PER_ITEM_GROWTH = 4;
+const MAX_OVERHEAD_RATIO = 150;
+
+// Nothing leaves the process - the benchmark measures the SDK, not the network
+globalThis.fetch = async () => new Response(null, { status: 200 });
+
+function makeCandidates(count: number): Candidate[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `candidate-${i}`,
+    score: (i * 7919) % 1000 / 1000,
+    category: i % 3 === 0 ? 'electronics' : 'accessories',
+  }));
+}
+
+async function businessLogic(items: Candidate[]): Promise<Candidate[]> {
+  return items.filter((item) => item.score > 0.5 && item.category !== 'electronics');
+}
+
+async function median(fn: () => Promise<unknown>): Promise<number> {
+  const samples: number[] = [];
+  for (let i = 0; i < ITERATIONS; i++) {
+    const start = performance.now();
+    await fn();
+    samples.push(performance.now() - start);
+  }
+  samples.sort((a, b) => a - b);
+  return samples[Math.floor(samples.length / 2)];
+}
+
+async function main() {
+  const xray = new XRay({ captureLevel: CaptureLevel.SAMPLED });
+  const runId = await xray.startRun('capture-benchmark', null);
+  const resolveItemKey = createItemKeyResolver();
+
+  const rows: Array<Record<string, string | number>> = [];
+  const perItemDiffUs: number[] = [];
+  const overheadRatios: number[] = [];
+
+  // Warm up so the smallest size doesn't measure the JIT
+  const warmup = makeCandidates(SIZES[0]);
+  for (let i = 0; i < ITERATIONS; i++) {
+    await xray.step(runId, XRStepType.FILTER, 'warmup-filter', businessLogic, warmup);
+  }
+
+  for (const size of SIZES) {
+    const candidates = makeCandidates(size);
+    const output = await businessLogic(candidates);
+
+    const logicMs = await median(() => businessLogic(candidates));
+    const wrappedMs = await median(() =>
+      xray.step(runId, XRStepType.FILTER, 'benchmark-filter', businessLogic, candidates)
+    );
+    const diffMs = await median(async () => diffItems(candidates, output, resolveItemKey));
+
+    const overheadRatio = (wrappedMs - logicMs) / logicMs;
+    perItemDiffUs.push((diffMs * 1000) / size);
+    overheadRatios.push(overheadRatio);
+    rows.push({
+      items: size,
+      'logic ms': logicMs.toFixed(2),
+      'wrapped ms': wrappedMs.toFixed(2),
+      'overhead ms': (wrappedMs - logicMs).toFixed(2),
+      'overhead x logic': overheadRatio.toFixed(1),
+      'diff ms': diffMs.toFixed(2),
+      'diff us/item': ((diffMs * 1000) / size).toFixed(3),
+    });
+  }
+
+  await xray.endRun(runId);
+  await xray.flush();
+
+  console.table(rows);
+
+  const growth = perItemDiffUs[perItemDiffUs.length - 1] / perItemDiffUs[0];
+  console.log(`Per-item diff cost growth (${SIZES[0]} -> ${SIZES[SIZES.length - 1]} items): ${growth.toFixed(2)}x`);
+
+  if (growth > MAX_PER_ITEM_GROWTH) {
+    console.error(`FAIL: per-item diff cost grew more than ${MAX_PER_ITEM_GROWTH}x - capture is not linear`);
+    process.exit(1);
+  }
+
+  const ratio = overheadRatios[overheadRatios.length - 1];
+  console.log(`Capture overhead at ${SIZES[SIZES.length - 1]} items: ${ratio.toFixed(1)}x the business logic`);
+
+  if (ratio > MAX_OVERHEAD_RATIO) {
+    console.error(`FAIL: capture overhead exceeds ${MAX_OVERHEAD_RATIO}x the business logic`);
+    process.exit(1);
+  }
+  console.log('OK: capture overhead scales linearly with step size and stays within budget');
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -4,27 +4,49 @@
  * Non-blocking, automatic metrics, adaptive sampling. Never throws errors.
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { v4 as uuidv4 } from 'uuid';
 import {
   XRRun,
   XRStep,
+  XRStepSummary,
   XRDecisionEvent,
+  XRIngestItem,
   XRStepType,
   XRDecisionOutcome,
   XRRunStatus,
 } from '@xray/shared-types';
-import { CaptureLevel, AdaptiveSampler } from './sampler';
-import { EventBuffer } from './buffer';
-import { HttpTransport } from './transport';
+import { CaptureLevel, AdaptiveSampler, SamplingConfig, SampleCandidate, SampleMetadata } from './sampler';
+import { EventBuffer, BufferConfig, BufferStats } from './buffer';
+import { HttpTransport, Transport, TransportConfig, TransportHealth } from './transport';
+import { TailSampler, TailSamplingConfig } from './tail';
+import { DiskSpool, SpoolConfig, SpoolStats } from './spool';
+import { ItemKey, createItemKeyResolver } from './identity';
+import { diffItems, diffFields, FieldChange } from './diff';
 
 export interface XRayConfig {
   apiUrl?: string;
+  apiKey?: string; // Ingestion API key (default: XRAY_API_KEY env var)
   captureLevel?: CaptureLevel;
-  bufferConfig?: {
-    maxSize?: number;
-    flushIntervalMs?: number;
-    batchSize?: number;
-  };
+  itemKey?: ItemKey; // How to identify items across steps (default: id, itemId or key field)
+  sampling?: SamplingConfig; // Which decision events CaptureLevel.SAMPLED keeps (default: uniform)
+  tailSampling?: TailSamplingConfig; // SAMPLED only: hold decisions until endRun, ship all for bad runs
+  bufferConfig?: Partial<BufferConfig>;
+  spool?: Partial<SpoolConfig> & Pick<SpoolConfig, 'directory'>; // Persist undeliverable events to disk
+  transportConfig?: Partial<Omit<TransportConfig, 'apiUrl'>>; // Timeouts, retries, compression, circuit breaker, health callbacks
+  transport?: Transport; // Replaces the HTTP transport (apiUrl and transportConfig are ignored)
+  onWarning?: (warning: XRayWarning) => void; // Misuse the SDK tolerates (untracked steps, duplicate item IDs)
+  debug?: boolean; // Also print warnings to the console
+}
+
+/**
+ * Something the SDK worked around instead of throwing
+ */
+export interface XRayWarning {
+  code: 'untracked_step' | 'untracked_group' | 'duplicate_item_ids' | 'capture_failed';
+  message: string;
+  stepName?: string;
+  stepId?: string;
 }
 
 /**
@@ -38,27 +60,230 @@ export interface DecisionCallback<TInput, TOutput> {
   } | null; // Return null to skip tracking this item
 }
 
+/**
+ * Per-step options (pass instead of a bare decision callback)
+ */
+export interface StepOptions<TInput, TOutput> {
+  decisionCallback?: DecisionCallback<TInput, TOutput>;
+  itemKey?: ItemKey; // Overrides the SDK-level itemKey for this step
+}
+
+/**
+ * Run context tracked in AsyncLocalStorage by withRun, step and group
+ */
+interface RunContext {
+  runId: string;
+  stepId: string | null; // Innermost executing step (parent for new steps)
+}
+
+function isStepType(value: unknown): value is XRStepType {
+  return Object.values(XRStepType).includes(value as XRStepType);
+}
+
+/**
+ * Arguments of a step call after the (optional) runId
+ */
+type StepCall<TInput, TOutput> = [
+  stepType: XRStepType,
+  stepName: string,
+  businessLogic: (input: TInput) => Promise<TOutput>,
+  input: TInput,
+  config?: Record<string, unknown>,
+  options?: DecisionCallback<TInput, TOutput> | StepOptions<TInput, TOutput>,
+];
+
+/**
+ * Arguments of a group call after the (optional) runId
+ */
+type GroupCall<T> = [
+  groupName: string,
+  fn: (scope: XRStepScope) => Promise<T>,
+  config?: Record<string, unknown>,
+];
+
+/**
+ * Whether a step call starts with an explicit runId (run IDs are UUIDs, so
+ * they can never be mistaken for a step type)
+ */
+function stepHasRunId<TInput, TOutput>(
+  args: StepCall<TInput, TOutput> | [string, ...StepCall<TInput, TOutput>]
+): args is [string, ...StepCall<TInput, TOutput>] {
+  return !isStepType(args[0]);
+}
+
+function groupHasRunId<T>(args: GroupCall<T> | [string, ...GroupCall<T>]): args is [string, ...GroupCall<T>] {
+  return typeof args[1] !== 'function';
+}
+
+/**
+ * One item's decision before its event is built
+ *
+ * Trade-off: Classification (matching, field diffs, the decision callback)
+ * runs for every item - the step summary needs exact counts. The event itself
+ * (ID, timestamp, metadata, automatic reason) is only built for the items
+ * that are captured.
+ */
+interface Decision extends SampleCandidate {
+  input: unknown;
+  output: unknown;
+  reason?: string; // Callback and single-item reasons; automatic ones are built with the event
+  rank?: { from: number; to: number; displacement: number };
+  mergedInto?: number;
+  changes?: FieldChange[];
+  isDuplicate?: boolean;
+}
+
+/**
+ * Exact per-outcome counts, modifications and rank movement over all of a step's decisions
+ */
+function summarizeDecisions(
+  decisions: Decision[]
+): Pick<XRStepSummary, 'outcomeCounts' | 'modifiedCount' | 'meanRankDisplacement'> {
+  const outcomeCounts: Partial<Record<XRDecisionOutcome, number>> = {};
+  let modifiedCount = 0;
+  let displacementSum = 0;
+  let rankedCount = 0;
+
+  decisions.forEach((decision) => {
+    outcomeCounts[decision.outcome] = (outcomeCounts[decision.outcome] ?? 0) + 1;
+    if (decision.outcome === XRDecisionOutcome.MODIFIED || (decision.changes?.length ?? 0) > 0) {
+      modifiedCount++;
+    }
+    if (decision.rank) {
+      displacementSum += Math.abs(decision.rank.displacement);
+      rankedCount++;
+    }
+  });
+
+  return {
+    outcomeCounts,
+    modifiedCount,
+    meanRankDisplacement: rankedCount > 0 ? displacementSum / rankedCount : 0,
+  };
+}
+
+/**
+ * Automatic reason for a decision the step didn't explain
+ */
+function describeDecision(
+  decision: Decision,
+  stepType: XRStepType,
+  config: Record<string, unknown> | undefined
+): string {
+  switch (decision.outcome) {
+    case XRDecisionOutcome.SCORED:
+      return `Item scored: ${decision.score !== undefined ? decision.score : 'N/A'}`;
+    case XRDecisionOutcome.MODIFIED:
+      return `Item modified by ${stepType} step: ${(decision.changes ?? []).map((c) => c.path).join(', ')}`;
+    case XRDecisionOutcome.MERGED:
+      return `Item merged into output item at position ${decision.mergedInto} by ${stepType} step`;
+    case XRDecisionOutcome.ADDED:
+      return `Item added by ${stepType} step`;
+    case XRDecisionOutcome.ELIMINATED:
+      // Try to extract reason from config
+      if (config?.threshold && (decision.input as any)?.score !== undefined) {
+        return `Score ${(decision.input as any).score} below threshold ${config.threshold}`;
+      }
+      if (config?.matchType) {
+        return `Item did not match ${config.matchType} criteria`;
+      }
+      return `Item eliminated by ${stepType} step`;
+    default:
+      return `Item passed ${stepType} step`;
+  }
+}
+
+/**
+ * Step scope handed to group callbacks
+ * 
+ * Same signatures as XRay.step / XRay.group minus the runId - the run and the
+ * parent step are bound by the scope.
+ */
+export interface XRStepScope {
+  readonly runId: string;
+  readonly stepId: string;
+
+  step<TInput extends Array<any>, TOutput extends Array<any>>(
+    stepType: XRStepType,
+    stepName: string,
+    businessLogic: (input: TInput) => Promise<TOutput>,
+    input: TInput,
+    config?: Record<string, unknown>,
+    options?: DecisionCallback<TInput[number], TOutput[number]> | StepOptions<TInput[number], TOutput[number]>
+  ): Promise<TOutput>;
+
+  step<TInput, TOutput>(
+    stepType: XRStepType,
+    stepName: string,
+    businessLogic: (input: TInput) => Promise<TOutput>,
+    input: TInput,
+    config?: Record<string, unknown>,
+    options?: DecisionCallback<TInput, TOutput> | StepOptions<TInput, TOutput>
+  ): Promise<TOutput>;
+
+  group<T>(
+    groupName: string,
+    fn: (scope: XRStepScope) => Promise<T>,
+    config?: Record<string, unknown>
+  ): Promise<T>;
+}
+
 /**
  * X-Ray SDK - wrap your existing pipeline code, no refactoring needed
  */
 export class XRay {
   private activeRuns: Map<string, XRRun> = new Map();
   private activeSteps: Map<string, XRStep> = new Map();
+  private stepSequences: Map<string, number> = new Map();
+  private context = new AsyncLocalStorage<RunContext>();
   private sampler: AdaptiveSampler;
+  private tailSampler?: TailSampler;
   private buffer: EventBuffer;
-  private transport: HttpTransport;
+  private spool?: DiskSpool;
+  private transport: Transport;
   private captureLevel: CaptureLevel;
+  private itemKey?: ItemKey;
+  private onWarning?: (warning: XRayWarning) => void;
+  private debug: boolean;
 
   constructor(config: XRayConfig = {}) {
     this.captureLevel = config.captureLevel || CaptureLevel.SAMPLED;
-    this.sampler = new AdaptiveSampler();
-    this.transport = new HttpTransport({ apiUrl: config.apiUrl });
+    this.itemKey = config.itemKey;
+    this.onWarning = config.onWarning;
+    this.debug = config.debug ?? false;
+    this.sampler = new AdaptiveSampler(config.sampling);
+    if (config.tailSampling && this.captureLevel === CaptureLevel.SAMPLED) {
+      this.tailSampler = new TailSampler(config.tailSampling);
+    }
+    this.transport =
+      config.transport ??
+      new HttpTransport({
+        ...config.transportConfig,
+        // Unset options keep the transport defaults
+        ...(config.apiUrl ? { apiUrl: config.apiUrl } : {}),
+        ...(config.apiKey ? { apiKey: config.apiKey } : {}),
+      });
 
-    // Buffer batches events, transport sends them - can swap transports easily
-    this.buffer = new EventBuffer(
-      (events) => this.transport.sendDecisionEvents(events),
-      config.bufferConfig
-    );
+    // Buffer batches runs, steps and events, transport sends them - swap via config.transport
+    const deliver = async (items: XRIngestItem[]) => {
+      if (!(await this.transport.sendBatch(items))) {
+        throw new Error('Transport did not deliver batch');
+      }
+    };
+    if (config.spool) {
+      this.spool = new DiskSpool(deliver, config.spool);
+    }
+    this.buffer = new EventBuffer(deliver, config.bufferConfig, this.spool);
+
+    if (this.tailSampler) {
+      const tailSampler = this.tailSampler;
+      // Ship decisions of runs that never reached endRun
+      const expiryTimer = setInterval(() => {
+        tailSampler.expire().forEach((event) => this.buffer.add({ type: 'decision', data: event }));
+      }, tailSampler.getExpiryIntervalMs());
+      // Expiry must not keep the process alive
+      expiryTimer.unref?.();
+    }
   }
 
   /**
@@ -84,14 +309,67 @@ export class XRay {
 
     this.activeRuns.set(runId, run);
 
-    // Send run metadata asynchronously (non-blocking)
-    this.transport.sendRun(run).catch(() => {
-      // Silent failure
-    });
+    // Send run metadata with the next batch (non-blocking)
+    // Snapshot - the run object keeps changing until endRun, queued copies must not
+    this.buffer.add({ type: 'run', data: { ...run } });
 
     return runId;
   }
 
+  /**
+   * Execute a function as a pipeline run with an implicit run context
+   * 
+   * The run is started, established in AsyncLocalStorage for the duration of fn,
+   * and ended when fn resolves (with its result) or rejects (with the error).
+   * Inside fn, `step`/`group` can be called without a runId and nested steps
+   * pick up their parent step automatically - including from helper functions
+   * and wrappers created with `wrap` that never see the runId.
+   * 
+   * @example
+   * const results = await xray.withRun('product-search', products, async () => {
+   *   const inStock = await xray.step(XRStepType.FILTER, 'filter-by-stock', filterInStock, products);
+   *   return xray.step(XRStepType.RANK, 'rank-by-relevance', rankByRelevance, inStock);
+   * });
+   * 
+   * @param pipelineId - Which pipeline is being executed
+   * @param input - Initial input data to the pipeline
+   * @param fn - Pipeline body, receives the runId in case it's needed explicitly
+   * @param metadata - Optional run-level metadata
+   * @returns The result of fn (errors from fn are re-thrown after the run is ended)
+   */
+  async withRun<T>(
+    pipelineId: string,
+    input: unknown,
+    fn: (runId: string) => Promise<T>,
+    metadata?: Record<string, unknown>
+  ): Promise<T> {
+    const runId = await this.startRun(pipelineId, input, metadata);
+
+    let output: T;
+    try {
+      output = await this.context.run({ runId, stepId: null }, () => fn(runId));
+    } catch (error) {
+      await this.endRun(
+        runId,
+        undefined,
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+
+    await this.endRun(runId, output);
+    return output;
+  }
+
+  /**
+   * Get the run established by the enclosing `withRun`, if any
+   * 
+   * Useful for helper functions that need to correlate with the current run.
+   */
+  currentRunId(): string | undefined {
+    return this.context.getStore()?.runId;
+  }
+
   /**
    * Execute a step and automatically capture decisions
    * 
@@ -104,13 +382,18 @@ export class XRay {
    * - Samples events if needed
    * - Buffers events for batch sending
    * 
-   * @param runId - The run this step belongs to
+   * The runId may be omitted inside `withRun` - the current run is used. Steps
+   * started while another step or group of the same run is executing are
+   * recorded as its children.
+   * 
+   * @param runId - The run this step belongs to (optional inside withRun)
    * @param stepType - Type of step (filter, rank, llm, transform)
    * @param stepName - Human-readable step name
    * @param businessLogic - Your existing business logic function (no changes needed!)
    * @param input - Input to the business logic
    * @param config - Optional step configuration (filters applied, thresholds, etc.)
-   * @param decisionCallback - Optional callback for custom decision reporting
+   * @param options - Optional callback for custom decision reporting, or
+   *   step options ({ decisionCallback, itemKey })
    * @returns The result of businessLogic execution
    */
   async step<TInput extends Array<any>, TOutput extends Array<any>>(
@@ -120,7 +403,7 @@ export class XRay {
     businessLogic: (input: TInput) => Promise<TOutput>,
     input: TInput,
     config?: Record<string, unknown>,
-    decisionCallback?: DecisionCallback<TInput[number], TOutput[number]>
+    options?: DecisionCallback<TInput[number], TOutput[number]> | StepOptions<TInput[number], TOutput[number]>
   ): Promise<TOutput>;
 
   async step<TInput, TOutput>(
@@ -130,69 +413,354 @@ export class XRay {
     businessLogic: (input: TInput) => Promise<TOutput>,
     input: TInput,
     config?: Record<string, unknown>,
-    decisionCallback?: DecisionCallback<TInput, TOutput>
+    options?: DecisionCallback<TInput, TOutput> | StepOptions<TInput, TOutput>
+  ): Promise<TOutput>;
+
+  async step<TInput extends Array<any>, TOutput extends Array<any>>(
+    stepType: XRStepType,
+    stepName: string,
+    businessLogic: (input: TInput) => Promise<TOutput>,
+    input: TInput,
+    config?: Record<string, unknown>,
+    options?: DecisionCallback<TInput[number], TOutput[number]> | StepOptions<TInput[number], TOutput[number]>
   ): Promise<TOutput>;
 
   async step<TInput, TOutput>(
-    runId: string,
     stepType: XRStepType,
     stepName: string,
     businessLogic: (input: TInput) => Promise<TOutput>,
     input: TInput,
     config?: Record<string, unknown>,
-    decisionCallback?: DecisionCallback<any, any>
+    options?: DecisionCallback<TInput, TOutput> | StepOptions<TInput, TOutput>
+  ): Promise<TOutput>;
+
+  async step<TInput, TOutput>(
+    ...args: StepCall<TInput, TOutput> | [string, ...StepCall<TInput, TOutput>]
   ): Promise<TOutput> {
-    const stepId = uuidv4();
-    const step: XRStep = {
-      id: stepId,
-      type: stepType,
-      name: stepName,
-      config, // Captures filters applied, thresholds, etc.
-      startedAt: new Date(),
-      completedAt: null,
-    };
+    let runId: string | undefined;
+    let call: StepCall<TInput, TOutput>;
+    if (stepHasRunId(args)) {
+      [runId, ...call] = args;
+    } else {
+      runId = this.currentRunId();
+      call = args;
+    }
+    const [stepType, stepName, businessLogic, input, config, options] = call;
+
+    if (!runId) {
+      // No run to attach to - run the business logic untracked rather than throw
+      this.warn({
+        code: 'untracked_step',
+        message: `step "${stepName}" called outside withRun without a runId, not tracked`,
+        stepName,
+      });
+      return businessLogic(input);
+    }
 
-    this.activeSteps.set(stepId, step);
+    return this.executeStep(
+      runId,
+      this.currentParentStepId(runId),
+      stepType,
+      stepName,
+      businessLogic,
+      input,
+      config,
+      options
+    );
+  }
 
-    // Send step metadata asynchronously
-    this.transport.sendStep(step).catch(() => {
-      // Silent failure
-    });
+  /**
+   * Run a sub-pipeline as a group step
+   * 
+   * The group is recorded as its own step (type `group`) and every step created
+   * through the scope handed to `fn` is recorded as its child. Groups can nest.
+   * Inside `withRun` the runId may be omitted, and plain `xray.step` calls made
+   * inside fn are recorded as children too.
+   * 
+   * @example
+   * const reranked = await xray.group(runId, 'rerank', async (rerank) => {
+   *   const filtered = await rerank.step(XRStepType.FILTER, 'drop-low-score', dropLowScore, candidates);
+   *   return rerank.step(XRStepType.LLM, 'llm-rerank', llmRerank, filtered);
+   * });
+   * 
+   * @param runId - The run this group belongs to (optional inside withRun)
+   * @param groupName - Human-readable group name
+   * @param fn - Sub-pipeline body, receives a scope for creating child steps
+   * @param config - Optional group configuration
+   * @returns The result of fn
+   */
+  async group<T>(
+    runId: string,
+    groupName: string,
+    fn: (scope: XRStepScope) => Promise<T>,
+    config?: Record<string, unknown>
+  ): Promise<T>;
+
+  async group<T>(
+    groupName: string,
+    fn: (scope: XRStepScope) => Promise<T>,
+    config?: Record<string, unknown>
+  ): Promise<T>;
+
+  async group<T>(...args: GroupCall<T> | [string, ...GroupCall<T>]): Promise<T> {
+    let runId: string | undefined;
+    let call: GroupCall<T>;
+    if (groupHasRunId(args)) {
+      [runId, ...call] = args;
+    } else {
+      runId = this.currentRunId();
+      call = args;
+    }
+    const [groupName, fn, config] = call;
 
+    if (!runId) {
+      this.warn({
+        code: 'untracked_group',
+        message: `group "${groupName}" called outside withRun without a runId, not tracked`,
+        stepName: groupName,
+      });
+      return fn(this.untrackedScope());
+    }
+
+    return this.executeGroup(runId, this.currentParentStepId(runId), groupName, fn, config);
+  }
+
+  /**
+   * Wrap a function so every call is executed as a step of the current run
+   * 
+   * The wrapped function resolves the run from the `withRun` context at call
+   * time, so it can be defined once (e.g. as a class member or in a decorator)
+   * and reused across runs.
+   * 
+   * @example
+   * const filterInStock = xray.wrap(XRStepType.FILTER, 'filter-by-stock',
+   *   async (items: Product[]) => items.filter((p) => p.inStock));
+   */
+  wrap<TInput, TOutput>(
+    stepType: XRStepType,
+    stepName: string,
+    businessLogic: (input: TInput) => Promise<TOutput>,
+    config?: Record<string, unknown>,
+    options?: DecisionCallback<any, any> | StepOptions<any, any>
+  ): (input: TInput) => Promise<TOutput> {
+    return (input: TInput) =>
+      this.step<TInput, TOutput>(stepType, stepName, businessLogic, input, config, options);
+  }
+
+  /**
+   * Report a warning to `onWarning` (and the console in debug mode). Never throws.
+   */
+  private warn(warning: XRayWarning): void {
+    if (this.debug) {
+      console.warn(`[XRay] ${warning.message}`);
+    }
     try {
-      // Execute business logic (your existing code - no changes!)
-      const output = await businessLogic(input);
+      this.onWarning?.(warning);
+    } catch {
+      // A failing host callback must not break the pipeline
+    }
+  }
 
-      // Automatically capture metrics and decisions
-      this.captureStepMetrics(runId, stepId, input, output, stepType, config, decisionCallback);
+  /**
+   * Parent step from the async context, only if it belongs to the same run
+   */
+  private currentParentStepId(runId: string): string | null {
+    const current = this.context.getStore();
+    return current && current.runId === runId ? current.stepId : null;
+  }
 
-      // Mark step as completed
-      step.completedAt = new Date();
-      this.transport.sendStep(step).catch(() => {
-        // Silent failure
-      });
+  /**
+   * Execute a step under an optional parent step
+   */
+  private async executeStep<TInput, TOutput>(
+    runId: string,
+    parentStepId: string | null,
+    stepType: XRStepType,
+    stepName: string,
+    businessLogic: (input: TInput) => Promise<TOutput>,
+    input: TInput,
+    config?: Record<string, unknown>,
+    options?: DecisionCallback<any, any> | StepOptions<any, any>
+  ): Promise<TOutput> {
+    const step = this.beginStep(runId, parentStepId, stepType, stepName, config);
+    const logicStart = performance.now();
 
-      return output;
+    let output: TOutput;
+    try {
+      // Execute business logic (your existing code - no changes!)
+      // Runs in the step's context so nested steps are recorded as children
+      output = await this.context.run({ runId, stepId: step.id }, () => businessLogic(input));
     } catch (error) {
-      // Mark step as failed
-      step.completedAt = new Date();
-      this.transport.sendStep(step).catch(() => {
-        // Silent failure
-      });
+      // Mark step as failed - every input item errored, nothing came out
+      const inputCount = Array.isArray(input) ? input.length : 1;
+      step.error = error instanceof Error ? error.message : String(error);
+      step.summary = {
+        inputCount,
+        outputCount: 0,
+        outcomeCounts: { [XRDecisionOutcome.ERRORED]: inputCount },
+        durationMs: performance.now() - logicStart,
+        sampleRate: 0,
+      };
+      this.completeStep(step);
 
       // Re-throw to allow application to handle the error
       // Trade-off: We don't swallow business logic errors, only SDK errors
       throw error;
+    }
+    const durationMs = performance.now() - logicStart;
+
+    // Automatically capture metrics and decisions (timed - capture is SDK overhead)
+    const captureStart = performance.now();
+    try {
+      const counts = this.captureStepMetrics(
+        runId,
+        step.id,
+        input,
+        output,
+        stepType,
+        config,
+        typeof options === 'function' ? { decisionCallback: options } : options ?? {}
+      );
+      step.summary = { ...counts, durationMs };
+    } catch (error) {
+      // The logic succeeded - the step completes without its decisions
+      this.warn({
+        code: 'capture_failed',
+        message: `decision capture failed in step ${step.id}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        stepName,
+        stepId: step.id,
+      });
+    }
+    step.captureDurationMs = performance.now() - captureStart;
+
+    // Mark step as completed
+    this.completeStep(step);
+
+    return output;
+  }
+
+  /**
+   * Execute a group step under an optional parent step
+   * 
+   * Groups don't capture decisions themselves - their child steps do.
+   */
+  private async executeGroup<T>(
+    runId: string,
+    parentStepId: string | null,
+    groupName: string,
+    fn: (scope: XRStepScope) => Promise<T>,
+    config?: Record<string, unknown>
+  ): Promise<T> {
+    const step = this.beginStep(runId, parentStepId, XRStepType.GROUP, groupName, config);
+
+    try {
+      return await this.context.run({ runId, stepId: step.id }, () =>
+        fn(this.createScope(runId, step.id))
+      );
+    } catch (error) {
+      // Mark the group as failed - same message as a failed step
+      step.error = error instanceof Error ? error.message : String(error);
+      throw error;
     } finally {
-      this.activeSteps.delete(stepId);
+      // Completed or failed - either way the group is done
+      this.completeStep(step);
     }
   }
 
+  /**
+   * Scope handle whose steps and groups are children of the given step
+   */
+  private createScope(runId: string, stepId: string): XRStepScope {
+    return {
+      runId,
+      stepId,
+      step: (
+        stepType: XRStepType,
+        stepName: string,
+        businessLogic: (input: any) => Promise<any>,
+        input: any,
+        config?: Record<string, unknown>,
+        options?: DecisionCallback<any, any> | StepOptions<any, any>
+      ) =>
+        this.executeStep(runId, stepId, stepType, stepName, businessLogic, input, config, options),
+      group: (groupName, fn, config) =>
+        this.executeGroup(runId, stepId, groupName, fn, config),
+    };
+  }
+
+  /**
+   * Scope handle for groups outside any run - executes steps without tracking
+   */
+  private untrackedScope(): XRStepScope {
+    return {
+      runId: '',
+      stepId: '',
+      step: (
+        _stepType: XRStepType,
+        _stepName: string,
+        businessLogic: (input: any) => Promise<any>,
+        input: any
+      ) => businessLogic(input),
+      group: (_groupName: string, fn: (scope: XRStepScope) => Promise<any>) =>
+        fn(this.untrackedScope()),
+    };
+  }
+
+  /**
+   * Create a step record, stamp its lineage and send it (non-blocking)
+   */
+  private beginStep(
+    runId: string,
+    parentStepId: string | null,
+    stepType: XRStepType,
+    stepName: string,
+    config?: Record<string, unknown>
+  ): XRStep {
+    const sequence = this.stepSequences.get(runId) ?? 0;
+    this.stepSequences.set(runId, sequence + 1);
+
+    const parent = parentStepId ? this.activeSteps.get(parentStepId) : undefined;
+
+    const step: XRStep = {
+      id: uuidv4(),
+      runId,
+      parentStepId,
+      sequence,
+      depth: parent ? (parent.depth ?? 0) + 1 : 0,
+      type: stepType,
+      name: stepName,
+      config, // Captures filters applied, thresholds, etc.
+      startedAt: new Date(),
+      completedAt: null,
+    };
+
+    this.activeSteps.set(step.id, step);
+
+    // Send step metadata with the next batch
+    this.buffer.add({ type: 'step', data: { ...step } });
+
+    return step;
+  }
+
+  /**
+   * Mark a step as finished and send the update (non-blocking)
+   */
+  private completeStep(step: XRStep): void {
+    step.completedAt = new Date();
+    this.buffer.add({ type: 'step', data: { ...step } });
+    this.activeSteps.delete(step.id);
+  }
+
   /**
    * Capture step metrics and decision events automatically
    * 
    * AUTOMATIC CAPTURE: Detects decisions by comparing input vs output.
    * No manual decision object construction required.
+   * 
+   * Returns the step's exact counts (everything but the duration) - the backend
+   * can't derive them from sampled events.
    */
   private captureStepMetrics<TInput, TOutput>(
     runId: string,
@@ -200,9 +768,9 @@ export class XRay {
     input: TInput,
     output: TOutput,
     stepType: XRStepType,
-    config?: Record<string, unknown>,
-    decisionCallback?: DecisionCallback<any, any>
-  ): void {
+    config: Record<string, unknown> | undefined,
+    options: StepOptions<any, any>
+  ): Omit<XRStepSummary, 'durationMs'> {
     // Always capture input/output counts
     const inputCount = Array.isArray(input) ? input.length : 1;
     const outputCount = Array.isArray(output) ? output.length : 1;
@@ -210,158 +778,171 @@ export class XRay {
     // Determine what to capture based on capture level
     if (this.captureLevel === CaptureLevel.METRICS_ONLY) {
       // Only send metrics, no decision events
-      return;
+      return { inputCount, outputCount, sampleRate: 0 };
     }
 
     // For SAMPLED and FULL, capture decision events
     const shouldSample = this.captureLevel === CaptureLevel.SAMPLED;
 
+    const { decisionCallback } = options;
+
+    // Every item is classified first - sampling strategies choose from the whole step
+    const decisions: Decision[] = [];
+
     // Automatic decision detection for array inputs/outputs
     if (Array.isArray(input) && Array.isArray(output)) {
-      // Create a map of output items by ID for fast lookup
-      const outputMap = new Map();
-      const outputById = new Map();
-      
-      // Try to identify items by common ID fields
-      output.forEach((item, index) => {
-        if (item && typeof item === 'object') {
-          const id = (item as any).id || (item as any).itemId || (item as any).key || `item-${index}`;
-          outputMap.set(id, item);
-          outputById.set(id, index);
-        }
-      });
+      // Step-level key wins over the SDK-level key
+      const resolveItemKey = createItemKeyResolver(options.itemKey ?? this.itemKey);
+
+      // Single pass over output + input - no per-item scans of the output
+      const { matches, addedPositions, duplicateCount } = diffItems(input, output, resolveItemKey);
+
+      // Position among surviving items in input order - what the output position
+      // is compared against, so a filter that keeps order shows no movement
+      let survivorRank = 0;
 
       // Process each input item
       input.forEach((inputItem, inputIndex) => {
-        let itemId: string;
-        let outputItem: any = null;
-        let outcome: XRDecisionOutcome;
-        let reason: string;
-        let score: number | undefined;
-
-        // Try to get item ID from common fields
-        if (inputItem && typeof inputItem === 'object') {
-          itemId = (inputItem as any).id || (inputItem as any).itemId || (inputItem as any).key || `item-${inputIndex}`;
-          
-          // Check if item exists in output
-          outputItem = outputMap.get(itemId);
-          
-          // If not found by ID, try to find by reference equality
-          if (!outputItem) {
-            const outputIndex = output.findIndex(item => item === inputItem);
-            if (outputIndex >= 0) {
-              outputItem = output[outputIndex];
-            }
+        const { itemId, outputItem, outputIndex, mergedInto, isDuplicate } = matches[inputIndex];
+
+        // Rank movement and field-level changes for items that made it through
+        let rank: Decision['rank'];
+        let changes: FieldChange[] | undefined;
+        if (outputIndex >= 0) {
+          rank = { from: inputIndex, to: outputIndex, displacement: outputIndex - survivorRank };
+          survivorRank++;
+
+          // Same reference means in-place mutation (or none) - nothing to compare against
+          if (outputItem !== inputItem) {
+            changes = diffFields(inputItem, outputItem);
           }
-        } else {
-          itemId = `item-${inputIndex}`;
-          // For primitive types, check if value exists in output
-          outputItem = output.includes(inputItem) ? inputItem : null;
         }
 
+        const decision: Decision = {
+          outcome: XRDecisionOutcome.KEPT,
+          itemId,
+          input: inputItem,
+          output: outputItem,
+          rank,
+          mergedInto: mergedInto >= 0 ? mergedInto : undefined,
+          changes,
+          isDuplicate,
+        };
+
         // Use custom callback if provided
         if (decisionCallback) {
-          const decision = decisionCallback(inputItem, outputItem, inputIndex);
-          if (decision) {
-            outcome = decision.outcome;
-            reason = decision.reason;
-            score = decision.score;
-          } else {
+          const custom = decisionCallback(inputItem, outputItem, inputIndex);
+          if (!custom) {
             // Callback returned null, skip this item
             return;
           }
-        } else {
-          // Automatic decision detection
-          if (outputItem !== null && outputItem !== undefined) {
-            // Item was kept or modified
-            if (stepType === XRStepType.RANK || stepType === XRStepType.SCORE) {
-              outcome = XRDecisionOutcome.SCORED;
-              score = (outputItem as any)?.score || (outputItem as any)?.relevanceScore;
-              reason = `Item scored: ${score !== undefined ? score : 'N/A'}`;
-            } else {
-              outcome = XRDecisionOutcome.KEPT;
-              reason = `Item passed ${stepType} step`;
-            }
-          } else {
-            // Item was eliminated
-            outcome = XRDecisionOutcome.ELIMINATED;
-            reason = `Item eliminated by ${stepType} step`;
-            
-            // Try to extract reason from config
-            if (config) {
-              if (config.threshold && (inputItem as any)?.score !== undefined) {
-                reason = `Score ${(inputItem as any).score} below threshold ${config.threshold}`;
-              } else if (config.matchType) {
-                reason = `Item did not match ${config.matchType} criteria`;
-              }
-            }
+          decision.outcome = custom.outcome;
+          decision.reason = custom.reason;
+          decision.score = custom.score;
+        } else if (outputIndex >= 0) {
+          // Item was kept or modified
+          if (stepType === XRStepType.RANK || stepType === XRStepType.SCORE) {
+            decision.outcome = XRDecisionOutcome.SCORED;
+            decision.score = (outputItem as any)?.score || (outputItem as any)?.relevanceScore;
+          } else if (changes && changes.length > 0) {
+            decision.outcome = XRDecisionOutcome.MODIFIED;
           }
+        } else if (mergedInto >= 0) {
+          // Same item is in the output, but another input already took its place
+          decision.outcome = XRDecisionOutcome.MERGED;
+        } else {
+          decision.outcome = XRDecisionOutcome.ELIMINATED;
         }
 
-        // Determine if we should capture this event
-        const shouldCapture = !shouldSample || this.sampler.shouldSample(
-          inputIndex,
-          inputCount,
-          this.sampler.calculateTargetSampleSize(inputCount)
-        );
-
-        if (shouldCapture) {
-          const event: XRDecisionEvent = {
-            id: uuidv4(),
-            stepId,
-            runId,
-            outcome,
-            itemId,
-            input: inputItem,
-            output: outputItem,
-            reason,
-            score,
-            metadata: {
-              inputCount,
-              outputCount,
-              sampled: shouldSample && inputIndex > 0 && inputIndex < inputCount - 1,
-              stepType,
-              filtersApplied: config, // Automatically captures filters applied
-            },
-            timestamp: new Date(),
-          };
-
-          // Add to buffer (non-blocking)
-          this.buffer.add(event);
-        }
+        decisions.push(decision);
       });
-    } else {
-      // For non-array inputs/outputs, create a single decision event
-      const itemId = 'single-item';
-      const outcome = output !== null && output !== undefined 
-        ? XRDecisionOutcome.KEPT 
-        : XRDecisionOutcome.ELIMINATED;
-      const reason = outcome === XRDecisionOutcome.KEPT
-        ? `Step completed successfully`
-        : `Step eliminated item`;
-
-      if (!shouldSample || this.sampler.shouldSample(0, 1, 1)) {
-        const event: XRDecisionEvent = {
-          id: uuidv4(),
+
+      // Output items no input item accounts for were created by the step
+      addedPositions.forEach((position) => {
+        const outputItem = output[position];
+        decisions.push({
+          outcome: XRDecisionOutcome.ADDED,
+          itemId: resolveItemKey(outputItem, position) ?? `added-${position}`,
+          input: null,
+          output: outputItem,
+        });
+      });
+
+      if (duplicateCount > 0) {
+        this.warn({
+          code: 'duplicate_item_ids',
+          message: `${duplicateCount} input item(s) share an ID in step ${stepId} - configure itemKey so items can be traced across steps`,
           stepId,
-          runId,
-          outcome,
-          itemId,
-          input,
-          output,
-          reason,
-          metadata: {
-            inputCount,
-            outputCount,
-            stepType,
-            filtersApplied: config,
-          },
-          timestamp: new Date(),
-        };
+        });
+      }
+    } else {
+      // For non-array inputs/outputs, create a single decision
+      const kept = output !== null && output !== undefined;
+      decisions.push({
+        outcome: kept ? XRDecisionOutcome.KEPT : XRDecisionOutcome.ELIMINATED,
+        itemId: 'single-item',
+        input,
+        output,
+        reason: kept ? `Step completed successfully` : `Step eliminated item`,
+      });
+    }
+
+    const toEvent = (decision: Decision, sampling?: SampleMetadata): XRDecisionEvent => ({
+      id: uuidv4(),
+      stepId,
+      runId,
+      outcome: decision.outcome,
+      itemId: decision.itemId,
+      input: decision.input,
+      output: decision.output,
+      reason: decision.reason ?? describeDecision(decision, stepType, config),
+      score: decision.score,
+      metadata: {
+        inputCount,
+        outputCount,
+        stepType,
+        filtersApplied: config, // Automatically captures filters applied
+        ...(decision.rank && { rank: decision.rank }),
+        ...(decision.mergedInto !== undefined && { mergedInto: decision.mergedInto }),
+        ...(decision.changes && decision.changes.length > 0 && { modified: true, changes: decision.changes }),
+        ...(decision.isDuplicate && { duplicateItemId: true }),
+        ...sampling,
+      },
+      timestamp: new Date(),
+    });
 
-        this.buffer.add(event);
+    let events: XRDecisionEvent[];
+    let sampled: XRDecisionEvent[];
+    if (!shouldSample) {
+      events = decisions.map((decision) => toEvent(decision));
+      sampled = events;
+    } else {
+      const selected = this.sampler.select(decisions);
+      if (this.tailSampler) {
+        // Tail sampling may still keep the whole step - every event is built
+        const sampling = new Map(selected.map(({ position, metadata }) => [position, metadata]));
+        events = decisions.map((decision, position) => toEvent(decision, sampling.get(position)));
+        sampled = selected.map(({ position }) => events[position]);
+      } else {
+        sampled = selected.map(({ position, metadata }) => toEvent(decisions[position], metadata));
+        events = sampled;
       }
     }
+
+    // Add to buffer (non-blocking)
+    let captured = sampled;
+    if (this.tailSampler) {
+      // Held until endRun decides between the sample and everything
+      captured = this.tailSampler.hold(runId, events, sampled, inputCount, outputCount);
+    }
+    captured.forEach((event) => this.buffer.add({ type: 'decision', data: event }));
+
+    return {
+      inputCount,
+      outputCount,
+      ...summarizeDecisions(decisions),
+      sampleRate: decisions.length > 0 ? sampled.length / decisions.length : 1,
+    };
   }
 
   /**
@@ -382,22 +963,27 @@ export class XRay {
     run.output = output ?? null;
     run.error = error ? error.message : null;
 
+    // Tail sampling: now that the outcome is known, ship the held decisions
+    this.tailSampler?.release(run).forEach((event) => this.buffer.add({ type: 'decision', data: event }));
+
     // Send updated run metadata (non-blocking)
-    this.transport.sendRun(run).catch(() => {
-      // Silent failure
-    });
+    this.buffer.add({ type: 'run', data: { ...run } });
 
     this.activeRuns.delete(runId);
+    this.stepSequences.delete(runId);
   }
 
   /**
    * Force flush all buffered events (useful for graceful shutdown)
    * 
    * Trade-off: This is the only potentially blocking operation in the SDK.
-   * It's acceptable because it's only called during shutdown.
+   * It's acceptable because it's only called during shutdown. Also stops the
+   * flush timer and closes the spool and the transport's connections - the
+   * SDK stays usable, and the next event restarts them.
    */
   async flush(): Promise<void> {
     await this.buffer.forceFlush();
+    await this.transport.close?.();
   }
 
   /**
@@ -406,4 +992,27 @@ export class XRay {
   getBufferSize(): number {
     return this.buffer.getSize();
   }
+
+  /**
+   * Get buffer counters: queued / in-flight / sent / dropped events, last error
+   * and flush latency histogram (for monitoring)
+   */
+  getBufferStats(): BufferStats {
+    return this.buffer.getStats();
+  }
+
+  /**
+   * Get disk spool counters (null when no spool is configured)
+   */
+  getSpoolStats(): SpoolStats | null {
+    return this.spool?.getStats() ?? null;
+  }
+
+  /**
+   * Get transport health: circuit state, consecutive failures, last error
+   * (for monitoring; null when the transport doesn't track health)
+   */
+  getTransportHealth(): TransportHealth | null {
+    return this.transport.getHealth?.() ?? null;
+  }
 }
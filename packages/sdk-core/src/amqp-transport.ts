@@ -0,0 +1,194 @@
+/**
+ * Direct-to-queue transport - publishes into the RabbitMQ queues the
+ * ingestion API feeds, skipping the HTTP hop
+ *
+ * Design trade-offs:
+ * - Same queues and message format as the ingestion API's RabbitMQQueue
+ *   (`xray.decisions` / `xray.runs` / `xray.steps`, one JSON item per
+ *   persistent message, `messageId` = SHA-256 of the body), so the processor
+ *   worker can't tell the difference.
+ * - Skips ingestion-side validation and API keys: only use it from trusted
+ *   pipelines that run the same shared-types version as the worker. Items are
+ *   published without a tenant (any `tenantId` on them is stripped), so they
+ *   land in the default tenant - the tenant can only be chosen through an API
+ *   key, and multi-tenant deployments should use the HTTP transport.
+ * - Publishes on a confirm channel and reports a batch as delivered only once
+ *   the broker has acked every message. A nack, a confirm timeout or a channel
+ *   closing mid-batch reports failure, so the buffer spools or drops it (the
+ *   worker skips the duplicates a resend produces).
+ * - `amqplib` is loaded lazily and is an optional peer dependency - HTTP-only
+ *   users don't install it.
+ * - Connects on first send and reconnects on the next send after the
+ *   connection drops; a batch sent while disconnected reports failure.
+ */
+
+import { createHash } from 'crypto';
+import type { ChannelModel, ConfirmChannel } from 'amqplib';
+import { XRIngestItem } from '@xray/shared-types';
+import { Transport } from './transport';
+
+export interface AmqpTransportConfig {
+  url: string; // Default: AMQP_URL env var, else amqp://localhost:5672
+  decisionQueue: string;
+  runsQueue: string;
+  stepsQueue: string;
+  confirmTimeoutMs: number; // A batch not acked within this reports failure
+}
+
+const DEFAULT_CONFIG: AmqpTransportConfig = {
+  url: process.env.AMQP_URL || 'amqp://localhost:5672',
+  decisionQueue: 'xray.decisions',
+  runsQueue: 'xray.runs',
+  stepsQueue: 'xray.steps',
+  confirmTimeoutMs: 10000,
+};
+
+export class AmqpTransport implements Transport {
+  private config: AmqpTransportConfig;
+  private connection: ChannelModel | null = null;
+  private channel: ConfirmChannel | null = null;
+  private connecting: Promise<void> | null = null;
+
+  constructor(config: Partial<AmqpTransportConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async sendBatch(items: XRIngestItem[]): Promise<boolean> {
+    if (items.length === 0) {
+      return true;
+    }
+
+    const channel = await this.ensureConnected();
+    if (!channel) {
+      return false;
+    }
+
+    const confirms: Promise<boolean>[] = [];
+    try {
+      for (const item of items) {
+        const queue =
+          item.type === 'decision'
+            ? this.config.decisionQueue
+            : item.type === 'run'
+              ? this.config.runsQueue
+              : this.config.stepsQueue;
+        const { tenantId: _tenantId, ...data } = item.data;
+        const body = Buffer.from(JSON.stringify(data));
+        let written = true;
+        confirms.push(
+          new Promise<boolean>((resolve) => {
+            written = channel.sendToQueue(
+              queue,
+              body,
+              {
+                persistent: true,
+                contentType: 'application/json',
+                messageId: createHash('sha256').update(body).digest('hex'),
+              },
+              (error) => resolve(!error)
+            );
+          })
+        );
+        if (!written) {
+          // Channel's write buffer is full - wait before publishing more
+          await waitForDrain(channel);
+        }
+      }
+    } catch (error) {
+      // Channel closed mid-batch - the rest weren't sent
+      console.warn('[XRay] Failed to publish events to RabbitMQ:', error);
+      return false;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const acked = await Promise.race([
+      Promise.all(confirms).then((results) => results.every(Boolean)),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(false), this.config.confirmTimeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    if (!acked) {
+      console.warn(`[XRay] RabbitMQ did not confirm all ${items.length} published events`);
+    }
+    return acked;
+  }
+
+  async close(): Promise<void> {
+    const connection = this.connection;
+    this.connection = null;
+    this.channel = null;
+    try {
+      await connection?.close();
+    } catch {
+      // Already closed
+    }
+  }
+
+  private async ensureConnected(): Promise<ConfirmChannel | null> {
+    if (this.channel) {
+      return this.channel;
+    }
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = null;
+      });
+    }
+    await this.connecting;
+    return this.channel;
+  }
+
+  private async connect(): Promise<void> {
+    try {
+      const amqp = await import('amqplib');
+      const connection = await amqp.connect(this.config.url);
+      const channel = await connection.createConfirmChannel();
+
+      // Declare durable queues (same options as the ingestion API)
+      await channel.assertQueue(this.config.decisionQueue, { durable: true });
+      await channel.assertQueue(this.config.runsQueue, { durable: true });
+      await channel.assertQueue(this.config.stepsQueue, { durable: true });
+
+      const reset = () => {
+        if (this.connection === connection) {
+          this.connection = null;
+          this.channel = null;
+          connection.close().catch(() => undefined);
+        }
+      };
+      connection.on('error', (error: Error) => {
+        console.warn('[XRay] RabbitMQ connection error:', error.message);
+      });
+      connection.on('close', reset);
+      // A channel error (e.g. a broker-side nack storm) closes only the channel
+      channel.on('error', (error: Error) => {
+        console.warn('[XRay] RabbitMQ channel error:', error.message);
+      });
+      channel.on('close', reset);
+
+      this.connection = connection;
+      this.channel = channel;
+    } catch (error) {
+      console.warn('[XRay] Failed to connect to RabbitMQ:', error);
+    }
+  }
+}
+
+/**
+ * Resolve once the channel's write buffer drains (or the channel closes or
+ * errors - nothing more will be written either way)
+ */
+function waitForDrain(channel: ConfirmChannel): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      channel.removeListener('drain', done);
+      channel.removeListener('close', done);
+      channel.removeListener('error', done);
+      resolve();
+    };
+    channel.once('drain', done);
+    channel.once('close', done);
+    channel.once('error', done);
+  });
+}
@@ -1,95 +1,243 @@
 /**
- * Async buffer for batching events. Non-blocking, drops oldest if full.
+ * Async buffer for batching events. Non-blocking, drops the oldest decision
+ * events if full (or moves the oldest batch to the disk spool, when one is
+ * configured).
+ *
+ * Design trade-offs:
+ * - Runs, steps and decision events share one queue and are sent together as
+ *   `batch` envelopes - one request instead of one per run/step update, and
+ *   the backend receives them in the order they were produced.
+ * - Events are sent in batches of `batchSize`, with up to `maxConcurrentFlushes`
+ *   batches in flight. A slow request no longer stalls every other flush, and
+ *   the cap keeps a burst from opening unbounded connections.
+ * - Batches carrying runs or steps are sent one at a time, in queue order.
+ *   Parallel requests can land in any order, and a run's `completed` update
+ *   overtaken by its `running` one would leave the run running for good.
+ *   Decision-only batches have no such ordering and go out in parallel.
+ * - `maxSize` bounds the queue of events waiting to be sent (in-flight events
+ *   don't count) - the memory the SDK may hold when ingestion can't keep up.
+ *   Only decision events are dropped to make room: a lost run or step update
+ *   leaves a run or step that never finishes, and they're a tiny share of the
+ *   queue (the queue may exceed `maxSize` by that share).
+ * - Counters are cumulative since construction, so they can be scraped and
+ *   rated like any other process metric.
  */
 
-import { XRDecisionEvent } from '@xray/shared-types';
+import { XRIngestItem } from '@xray/shared-types';
+import { DiskSpool } from './spool';
 
 export interface BufferConfig {
-  maxSize: number; // Maximum events before forced flush
+  maxSize: number; // Maximum queued events - oldest are dropped (or spooled) past this
   flushIntervalMs: number; // Time-based flush interval
-  batchSize: number; // Target batch size for sending
+  batchSize: number; // Items per request
+  maxConcurrentFlushes: number; // Batches in flight at once (batches with runs or steps: one at a time)
 }
 
 const DEFAULT_CONFIG: BufferConfig = {
   maxSize: 1000,
   flushIntervalMs: 5000, // 5 seconds
   batchSize: 100,
+  maxConcurrentFlushes: 4,
 };
 
 /**
- * Batches events and sends them async. Simple array buffer for now.
+ * Flush latency histogram bucket upper bounds (ms)
+ */
+const LATENCY_BUCKETS_MS = [10, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+export interface FlushLatencyHistogram {
+  buckets: { le: number; count: number }[]; // Cumulative, Prometheus-style (last is +Infinity)
+  count: number;
+  sumMs: number;
+}
+
+export interface BufferStats {
+  queued: number; // Items (runs, steps, decisions) waiting to be sent
+  inFlight: number; // Items in batches currently being sent
+  inFlightBatches: number;
+  sent: number; // Events delivered
+  dropped: number; // Events lost (decisions when the buffer is full, or a failed batch, without a spool)
+  spooled: number; // Events handed to the disk spool
+  failedBatches: number;
+  lastError: { message: string; at: Date } | null;
+  flushLatency: FlushLatencyHistogram;
+}
+
+/**
+ * Batches events and sends them async with bounded concurrency.
  */
 export class EventBuffer {
-  private buffer: XRDecisionEvent[] = [];
+  private buffer: XRIngestItem[] = [];
   private flushTimer: NodeJS.Timeout | null = null;
-  private isFlushing = false;
-  private flushCallback: (events: XRDecisionEvent[]) => Promise<void>;
+  private inFlight: Set<Promise<void>> = new Set();
+  private inFlightEvents = 0;
+  private sendingLifecycle = false; // A batch with runs or steps is in flight
+  private flushCallback: (events: XRIngestItem[]) => Promise<void>;
+  private config: BufferConfig;
+  private spool?: DiskSpool;
+
+  private sent = 0;
+  private dropped = 0;
+  private spooled = 0;
+  private failedBatches = 0;
+  private lastError: { message: string; at: Date } | null = null;
+  private latencyCounts: number[] = new Array(LATENCY_BUCKETS_MS.length + 1).fill(0);
+  private latencySumMs = 0;
 
+  /**
+   * @param flushCallback - Sends a batch, rejecting if it wasn't delivered
+   * @param config - Buffer limits
+   * @param spool - Optional disk spool for batches that couldn't be sent
+   */
   constructor(
-    flushCallback: (events: XRDecisionEvent[]) => Promise<void>,
-    config: Partial<BufferConfig> = {}
+    flushCallback: (events: XRIngestItem[]) => Promise<void>,
+    config: Partial<BufferConfig> = {},
+    spool?: DiskSpool
   ) {
     this.flushCallback = flushCallback;
-    const finalConfig = { ...DEFAULT_CONFIG, ...config };
-    this.startPeriodicFlush(finalConfig.flushIntervalMs);
+    this.spool = spool;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config.maxConcurrentFlushes = Math.max(1, this.config.maxConcurrentFlushes);
+    this.startPeriodicFlush(this.config.flushIntervalMs);
   }
 
   /**
    * Add event to buffer. Non-blocking - might lose events on crash.
    */
-  add(event: XRDecisionEvent): void {
+  add(item: XRIngestItem): void {
+    // A forceFlush stopped the timer - the buffer is in use again
+    if (!this.flushTimer) {
+      this.startPeriodicFlush(this.config.flushIntervalMs);
+    }
+
     // Drop oldest if buffer is full (better than blocking)
-    if (this.buffer.length >= DEFAULT_CONFIG.maxSize) {
-      this.buffer.shift(); // Remove oldest
+    if (this.buffer.length >= this.config.maxSize) {
+      if (this.spool) {
+        // Oldest batch goes to disk instead - replayed later
+        const overflow = this.buffer.splice(0, this.config.batchSize);
+        this.spooled += overflow.length;
+        this.spool.append(overflow).catch((error) => {
+          this.spooled -= overflow.length;
+          this.dropped += overflow.length;
+          console.warn('[XRay] Failed to spool overflow, dropping batch:', error);
+        });
+      } else {
+        // Remove the oldest decision event - runs and steps are never dropped
+        const oldest = this.buffer.findIndex((queued) => queued.type === 'decision');
+        if (oldest >= 0) {
+          this.buffer.splice(oldest, 1);
+          this.dropped++;
+        }
+      }
     }
 
-    this.buffer.push(event);
+    this.buffer.push(item);
 
     // Trigger flush if we've reached batch size
     // Fire-and-forget: don't await to avoid blocking
-    if (this.buffer.length >= DEFAULT_CONFIG.batchSize) {
-      this.flush().catch(() => {
-        // Silently fail - transport layer will handle retries
-      });
+    if (this.buffer.length >= this.config.batchSize) {
+      this.flush();
     }
   }
 
   /**
-   * Flush all buffered events. Prevents concurrent flushes.
+   * Start sending queued events, up to the concurrency cap
+   *
+   * Partial batches are sent too - callers (the timer, forceFlush) want
+   * everything out, not just full batches.
    */
-  private async flush(): Promise<void> {
-    if (this.isFlushing || this.buffer.length === 0) {
-      return;
-    }
+  private flush(): void {
+    while (this.buffer.length > 0 && this.inFlight.size < this.config.maxConcurrentFlushes) {
+      const size = Math.min(this.buffer.length, this.config.batchSize);
+      let lifecycle = false;
+      for (let i = 0; i < size && !lifecycle; i++) {
+        lifecycle = this.buffer[i].type !== 'decision';
+      }
+      if (lifecycle && this.sendingLifecycle) {
+        // Queue order: wait for the run/step batch ahead to settle
+        break;
+      }
 
-    this.isFlushing = true;
-    const eventsToSend = [...this.buffer];
-    this.buffer = [];
+      const batch = this.buffer.splice(0, size);
+      this.sendingLifecycle = this.sendingLifecycle || lifecycle;
+      const sending = this.sendBatch(batch).finally(() => {
+        this.inFlight.delete(sending);
+        this.inFlightEvents -= batch.length;
+        if (lifecycle) {
+          this.sendingLifecycle = false;
+        }
+        // A slot freed up - keep draining
+        if (this.buffer.length >= this.config.batchSize) {
+          this.flush();
+        }
+      });
+      this.inFlight.add(sending);
+      this.inFlightEvents += batch.length;
+    }
+  }
 
+  /**
+   * Send one batch. Never rejects.
+   */
+  private async sendBatch(batch: XRIngestItem[]): Promise<void> {
+    const start = Date.now();
     try {
-      await this.flushCallback(eventsToSend);
+      await this.flushCallback(batch);
+      this.sent += batch.length;
+      this.spool?.notifyDelivered();
     } catch (error) {
-      // Drop events if flush fails (avoid infinite retry loops)
-      console.warn('[XRay] Failed to flush events, dropping batch:', error);
+      this.failedBatches++;
+      this.lastError = {
+        message: error instanceof Error ? error.message : String(error),
+        at: new Date(),
+      };
+
+      if (this.spool) {
+        // Persist for replay once the ingestion API recovers
+        try {
+          await this.spool.append(batch);
+          this.spooled += batch.length;
+        } catch (spoolError) {
+          this.dropped += batch.length;
+          this.lastError = {
+            message: spoolError instanceof Error ? spoolError.message : String(spoolError),
+            at: new Date(),
+          };
+          console.warn('[XRay] Failed to spool batch, dropping it:', spoolError);
+        }
+      } else {
+        // Drop events if flush fails (avoid infinite retry loops)
+        this.dropped += batch.length;
+        console.warn('[XRay] Failed to flush events, dropping batch:', error);
+      }
     } finally {
-      this.isFlushing = false;
+      this.recordLatency(Date.now() - start);
     }
   }
 
+  private recordLatency(ms: number): void {
+    const bucket = LATENCY_BUCKETS_MS.findIndex((le) => ms <= le);
+    this.latencyCounts[bucket === -1 ? LATENCY_BUCKETS_MS.length : bucket]++;
+    this.latencySumMs += ms;
+  }
+
   /**
    * Start periodic flushing to prevent stale data
    */
   private startPeriodicFlush(intervalMs: number): void {
     this.flushTimer = setInterval(() => {
-      this.flush().catch(() => {
-        // Silently fail
-      });
+      this.flush();
     }, intervalMs);
   }
 
   /**
    * Force immediate flush (e.g., on shutdown)
-   * 
+   *
+   * Waits until the queue is empty and every in-flight batch has settled, then
+   * stops the flush timer (so it doesn't keep the process alive) and closes the
+   * spool. The buffer stays usable: the next `add` restarts the timer and the
+   * next spool append reopens the spool.
+   *
    * Note: This is the only potentially blocking operation, but it's
    * only called during graceful shutdown, which is acceptable.
    */
@@ -98,7 +246,14 @@ export class EventBuffer {
       clearInterval(this.flushTimer);
       this.flushTimer = null;
     }
-    await this.flush();
+
+    while (this.buffer.length > 0 || this.inFlight.size > 0) {
+      this.flush();
+      await Promise.race(this.inFlight);
+    }
+
+    // Undelivered events stay on disk for the next process
+    await this.spool?.close();
   }
 
   /**
@@ -107,5 +262,27 @@ export class EventBuffer {
   getSize(): number {
     return this.buffer.length;
   }
-}
 
+  /**
+   * Cumulative counters and current queue state (for monitoring)
+   */
+  getStats(): BufferStats {
+    let cumulative = 0;
+    const buckets = [...LATENCY_BUCKETS_MS, Infinity].map((le, i) => {
+      cumulative += this.latencyCounts[i];
+      return { le, count: cumulative };
+    });
+
+    return {
+      queued: this.buffer.length,
+      inFlight: this.inFlightEvents,
+      inFlightBatches: this.inFlight.size,
+      sent: this.sent,
+      dropped: this.dropped,
+      spooled: this.spooled,
+      failedBatches: this.failedBatches,
+      lastError: this.lastError,
+      flushLatency: { buckets, count: cumulative, sumMs: this.latencySumMs },
+    };
+  }
+}
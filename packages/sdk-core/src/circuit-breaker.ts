@@ -0,0 +1,104 @@
+/**
+ * Circuit breaker for the ingestion API
+ *
+ * Design trade-offs:
+ * - Counts consecutive failed attempts, not a failure rate over a window.
+ *   The SDK sends few, batched requests, so a window would take minutes to fill.
+ * - Only failures that say the API is unhealthy count (network errors,
+ *   timeouts, 429, 5xx). A 400 means the API is up and rejected our payload.
+ * - While open, sends fail immediately without touching the network. After
+ *   `resetTimeoutMs` a single probe request is let through (half-open): success
+ *   closes the circuit, failure re-opens it for another full timeout.
+ */
+
+export enum CircuitState {
+  CLOSED = 'closed',
+  OPEN = 'open',
+  HALF_OPEN = 'half_open',
+}
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  resetTimeoutMs: number; // Time open before a probe is allowed
+}
+
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+  private state: CircuitState = CircuitState.CLOSED;
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(
+    config: CircuitBreakerConfig,
+    onStateChange?: (state: CircuitState, previous: CircuitState) => void
+  ) {
+    this.config = config;
+    this.onStateChange = onStateChange;
+  }
+
+  /**
+   * Ask to send a request. Must be followed by recordSuccess (the API answered,
+   * even with a 4xx) or recordFailure when it returns true.
+   */
+  tryAcquire(): boolean {
+    if (this.state === CircuitState.OPEN) {
+      if (Date.now() - this.openedAt < this.config.resetTimeoutMs) {
+        return false;
+      }
+      this.transition(CircuitState.HALF_OPEN);
+    }
+
+    if (this.state === CircuitState.HALF_OPEN) {
+      // Only one probe at a time - concurrent sends keep failing fast
+      if (this.probeInFlight) {
+        return false;
+      }
+      this.probeInFlight = true;
+    }
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.probeInFlight = false;
+    this.consecutiveFailures = 0;
+    if (this.state !== CircuitState.CLOSED) {
+      this.transition(CircuitState.CLOSED);
+    }
+  }
+
+  recordFailure(): void {
+    this.probeInFlight = false;
+    this.consecutiveFailures++;
+    if (
+      this.state === CircuitState.HALF_OPEN ||
+      (this.state === CircuitState.CLOSED &&
+        this.consecutiveFailures >= this.config.failureThreshold)
+    ) {
+      this.openedAt = Date.now();
+      this.transition(CircuitState.OPEN);
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getConsecutiveFailures(): number {
+    return this.consecutiveFailures;
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    if (this.onStateChange) {
+      try {
+        this.onStateChange(state, previous);
+      } catch (error) {
+        // Host callbacks must never break the pipeline
+        console.warn('[XRay] Circuit state callback failed:', error);
+      }
+    }
+  }
+}
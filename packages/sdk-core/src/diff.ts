@@ -0,0 +1,260 @@
+/**
+ * Input/output diffing for automatic decision detection
+ *
+ * Design trade-offs:
+ * - Output is indexed once (by item ID, by object reference and by primitive
+ *   value) so matching every input item is a map lookup - O(n + m) overall.
+ *   Steps with tens of thousands of candidates must not pay quadratic
+ *   `findIndex`/`includes` scans.
+ * - Each output position can be matched at most once, so duplicate inputs
+ *   don't all claim the same output item.
+ * - Matching order: same object reference first (unambiguous), then item ID
+ *   (survives transforms that copy objects), then primitive value.
+ * - An input whose ID/reference is in the output but whose output positions
+ *   are all taken was merged into that item (deduplication); output positions
+ *   nothing matched were added by the step.
+ */
+
+import { ItemKeyResolver, fallbackItemId } from './identity';
+
+/**
+ * Result of matching one input item against the output
+ */
+export interface ItemMatch {
+  itemId: string;
+  outputItem: unknown; // null when the item is not in the output
+  outputIndex: number; // -1 when the item is not in the output
+  mergedInto: number; // Output position this item was merged into, -1 if not merged
+  isDuplicate: boolean; // Another input item already used this ID
+}
+
+export interface DiffResult {
+  matches: ItemMatch[]; // One per input item, in input order
+  addedPositions: number[]; // Output positions no input item matched
+  duplicateCount: number;
+}
+
+/**
+ * Output positions sharing a lookup key, consumed front to back
+ */
+interface Candidates {
+  indices: number[];
+  head: number;
+}
+
+function addCandidate<K>(index: Map<K, Candidates>, key: K, position: number): void {
+  const existing = index.get(key);
+  if (existing) {
+    existing.indices.push(position);
+  } else {
+    index.set(key, { indices: [position], head: 0 });
+  }
+}
+
+/**
+ * Take the first output position for a key that hasn't been matched yet
+ *
+ * Amortized O(1): each position is skipped at most once per list it's in.
+ */
+function takeCandidate<K>(
+  index: Map<K, Candidates>,
+  key: K,
+  consumed: Uint8Array
+): number {
+  const candidates = index.get(key);
+  if (!candidates) {
+    return -1;
+  }
+  while (candidates.head < candidates.indices.length) {
+    const position = candidates.indices[candidates.head++];
+    if (!consumed[position]) {
+      consumed[position] = 1;
+      return position;
+    }
+  }
+  return -1;
+}
+
+/**
+ * First output position for a key, whether or not it's been matched
+ */
+function firstCandidate<K>(index: Map<K, Candidates>, key: K): number {
+  return index.get(key)?.indices[0] ?? -1;
+}
+
+/**
+ * Hash key for primitive values (type-tagged so 1 and '1' don't collide)
+ */
+function primitiveKey(value: unknown): string {
+  return `${typeof value}:${String(value)}`;
+}
+
+function isObject(value: unknown): value is object {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * Match every input item to its position in the output (if any)
+ */
+export function diffItems(
+  input: unknown[],
+  output: unknown[],
+  resolveItemKey: ItemKeyResolver
+): DiffResult {
+  const byReference = new Map<object, Candidates>();
+  const byId = new Map<string, Candidates>();
+  const byValue = new Map<string, Candidates>();
+
+  output.forEach((item, position) => {
+    if (isObject(item)) {
+      addCandidate(byReference, item, position);
+      const id = resolveItemKey(item, position);
+      if (id !== undefined) {
+        addCandidate(byId, id, position);
+      }
+    } else {
+      addCandidate(byValue, primitiveKey(item), position);
+    }
+  });
+
+  const consumed = new Uint8Array(output.length);
+  const seenIds = new Set<string>();
+  let duplicateCount = 0;
+
+  const matches = input.map((item, index): ItemMatch => {
+    const key = resolveItemKey(item, index);
+    const itemId = key ?? fallbackItemId(index);
+
+    const isDuplicate = seenIds.has(itemId);
+    if (isDuplicate) {
+      duplicateCount++;
+    } else {
+      seenIds.add(itemId);
+    }
+
+    let outputIndex = -1;
+    let mergedInto = -1;
+    if (isObject(item)) {
+      outputIndex = takeCandidate(byReference, item, consumed);
+      // Positional fallback IDs say nothing about identity - only match real keys
+      if (outputIndex < 0 && key !== undefined) {
+        outputIndex = takeCandidate(byId, key, consumed);
+      }
+      if (outputIndex < 0) {
+        mergedInto = firstCandidate(byReference, item);
+        if (mergedInto < 0 && key !== undefined) {
+          mergedInto = firstCandidate(byId, key);
+        }
+      }
+    } else {
+      outputIndex = takeCandidate(byValue, primitiveKey(item), consumed);
+      if (outputIndex < 0) {
+        mergedInto = firstCandidate(byValue, primitiveKey(item));
+      }
+    }
+
+    return {
+      itemId,
+      outputItem: outputIndex >= 0 ? output[outputIndex] : null,
+      outputIndex,
+      mergedInto,
+      isDuplicate,
+    };
+  });
+
+  const addedPositions: number[] = [];
+  consumed.forEach((matched, position) => {
+    if (!matched) {
+      addedPositions.push(position);
+    }
+  });
+
+  return { matches, addedPositions, duplicateCount };
+}
+
+/**
+ * A single field-level difference between an input item and its output item
+ */
+export interface FieldChange {
+  path: string; // Dotted path ('price', 'seller.rating', 'tags.2')
+  before: unknown; // undefined when the field was added
+  after: unknown; // undefined when the field was removed
+}
+
+export interface FieldDiffOptions {
+  maxDepth: number; // Nested objects deeper than this are compared as a whole
+  maxChanges: number; // Stop after this many changes (keeps metadata bounded)
+}
+
+const DEFAULT_FIELD_DIFF_OPTIONS: FieldDiffOptions = {
+  maxDepth: 3,
+  maxChanges: 20,
+};
+
+/**
+ * Structured diff of two values (typically an input item and its output item)
+ *
+ * Trade-off: Bounded depth and change count. Transforms that rewrite whole
+ * documents would otherwise bloat every decision event; the first changes
+ * are what a debugging session needs.
+ */
+export function diffFields(
+  before: unknown,
+  after: unknown,
+  options: Partial<FieldDiffOptions> = {}
+): FieldChange[] {
+  const { maxDepth, maxChanges } = { ...DEFAULT_FIELD_DIFF_OPTIONS, ...options };
+  const changes: FieldChange[] = [];
+
+  const visit = (a: unknown, b: unknown, path: string, depth: number): void => {
+    if (changes.length >= maxChanges || Object.is(a, b)) {
+      return;
+    }
+
+    if (isContainer(a) && isContainer(b) && Array.isArray(a) === Array.isArray(b) && depth < maxDepth) {
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+      for (const key of keys) {
+        visit(
+          (a as Record<string, unknown>)[key],
+          (b as Record<string, unknown>)[key],
+          path ? `${path}.${key}` : key,
+          depth + 1
+        );
+      }
+      return;
+    }
+
+    // Dates, class instances and containers past maxDepth: compare serialized form
+    if (isObject(a) && isObject(b)) {
+      const serialized = safeStringify(a);
+      if (serialized !== undefined && serialized === safeStringify(b)) {
+        return;
+      }
+    }
+
+    changes.push({ path: path || '$', before: a, after: b });
+  };
+
+  visit(before, after, '', 0);
+  return changes;
+}
+
+/**
+ * Arrays and plain objects - walked field by field
+ */
+function isContainer(value: unknown): value is object {
+  if (!isObject(value)) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return Array.isArray(value) || proto === Object.prototype || proto === null;
+}
+
+function safeStringify(value: unknown): string | undefined {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    // Circular structures - treat as different
+    return undefined;
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * NDJSON transports - write batches to a file or stdout instead of the network
+ *
+ * Design trade-offs:
+ * - One `XRIngestItem` per line, the format `POST /ingest/stream` accepts, so
+ *   a file written by a batch job can be uploaded as-is later
+ *   (`curl --data-binary @events.ndjson -H 'Content-Type: application/x-ndjson'`).
+ * - Writes are serialized so concurrent batches never interleave lines.
+ * - No rotation or size cap - these are for batch jobs, local runs and tests,
+ *   not long-lived services.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { XRIngestItem } from '@xray/shared-types';
+import { Transport } from './transport';
+
+function toNdjson(items: XRIngestItem[]): string {
+  return items.map((item) => JSON.stringify(item) + '\n').join('');
+}
+
+/**
+ * Appends batches to an NDJSON file (directory created if missing)
+ */
+export class FileTransport implements Transport {
+  private file: string;
+  private chain: Promise<unknown> = Promise.resolve();
+  private directoryReady = false;
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  sendBatch(items: XRIngestItem[]): Promise<boolean> {
+    if (items.length === 0) {
+      return Promise.resolve(true);
+    }
+
+    const write = this.chain.then(async () => {
+      try {
+        if (!this.directoryReady) {
+          await fs.mkdir(path.dirname(this.file), { recursive: true });
+          this.directoryReady = true;
+        }
+        await fs.appendFile(this.file, toNdjson(items));
+        return true;
+      } catch (error) {
+        console.warn('[XRay] Failed to write events file:', error);
+        return false;
+      }
+    });
+    this.chain = write;
+    return write;
+  }
+
+  /**
+   * Wait for pending writes
+   */
+  async close(): Promise<void> {
+    await this.chain;
+  }
+}
+
+/**
+ * Writes batches as NDJSON to stdout (or another stream)
+ *
+ * Trade-off: Shares the stream with the host app's own output - point
+ * `stream` at process.stderr or a dedicated stream to keep them apart.
+ */
+export class StdoutTransport implements Transport {
+  private stream: NodeJS.WritableStream;
+  private chain: Promise<unknown> = Promise.resolve();
+
+  constructor(stream: NodeJS.WritableStream = process.stdout) {
+    this.stream = stream;
+  }
+
+  sendBatch(items: XRIngestItem[]): Promise<boolean> {
+    if (items.length === 0) {
+      return Promise.resolve(true);
+    }
+
+    const write = this.chain.then(
+      () =>
+        new Promise<boolean>((resolve) => {
+          try {
+            this.stream.write(toNdjson(items), (error) => resolve(!error));
+          } catch {
+            resolve(false);
+          }
+        })
+    );
+    this.chain = write;
+    return write;
+  }
+
+  async close(): Promise<void> {
+    await this.chain;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Item identity extraction for decision events
+ *
+ * Design trade-offs:
+ * - Item IDs are what link decisions for the same item across steps
+ *   (decision_events.item_id), so they must be stable - positional fallbacks
+ *   (`item-${index}`) break as soon as a step reorders or drops items
+ * - Identity is configurable per SDK instance and per step because pipelines
+ *   mix item shapes (e.g. `sku` for products, composite keys for offers)
+ */
+
+/**
+ * How to identify an item
+ *
+ * - field path: 'sku' or a dotted path into nested objects ('product.sku')
+ * - array of field paths: composite key, values joined with ':'
+ * - function: receives the item and its index, returns the ID
+ *
+ * When the configured key yields nothing for an item, the positional
+ * fallback `item-${index}` is used.
+ */
+export type ItemKey =
+  | string
+  | string[]
+  | ((item: any, index: number) => string | number | null | undefined);
+
+/**
+ * Resolves the ID for an item at a given index (undefined if the item has none)
+ */
+export type ItemKeyResolver = (item: unknown, index: number) => string | undefined;
+
+/**
+ * Fields tried (in order) when no item key is configured
+ */
+const DEFAULT_ID_PATHS = ['id', 'itemId', 'key'].map((field) => [field]);
+
+/**
+ * Read a field path (pre-split on '.') from an item (undefined if any segment
+ * is missing)
+ *
+ * Trade-off: Paths are split once per resolver, not per item - resolvers run
+ * for every input and output item of every step.
+ */
+function readPath(item: unknown, path: string[]): unknown {
+  let value: unknown = item;
+  for (const segment of path) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Usable ID values: non-empty strings and finite numbers
+ */
+function toId(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.length > 0) {
+    return value;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * Build an item ID resolver for the given key
+ */
+export function createItemKeyResolver(itemKey?: ItemKey): ItemKeyResolver {
+  if (typeof itemKey === 'function') {
+    return (item, index) => {
+      try {
+        return toId(itemKey(item, index));
+      } catch {
+        // A throwing key function must never break the pipeline
+        return undefined;
+      }
+    };
+  }
+
+  if (Array.isArray(itemKey)) {
+    const paths = itemKey.map((path) => path.split('.'));
+    return (item) => {
+      const parts = paths.map((path) => toId(readPath(item, path)));
+      return parts.every((part) => part !== undefined)
+        ? parts.join(':')
+        : undefined;
+    };
+  }
+
+  if (typeof itemKey === 'string') {
+    const path = itemKey.split('.');
+    return (item) => toId(readPath(item, path));
+  }
+
+  return (item) => {
+    for (const field of DEFAULT_ID_PATHS) {
+      const id = toId(readPath(item, field));
+      if (id !== undefined) {
+        return id;
+      }
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Positional ID for items without a resolvable key
+ */
+export function fallbackItemId(index: number): string {
+  return `item-${index}`;
+}
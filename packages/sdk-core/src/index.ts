@@ -4,9 +4,37 @@
  */
 
 export { XRay } from './XRay';
-export { CaptureLevel, AdaptiveSampler } from './sampler';
+export {
+  CaptureLevel,
+  AdaptiveSampler,
+  SamplingStrategyType,
+  UniformSamplingStrategy,
+  ReservoirSamplingStrategy,
+  OutcomeStratifiedSamplingStrategy,
+  ScoreQuantileSamplingStrategy,
+  ItemHashSamplingStrategy,
+} from './sampler';
+export { SpillPolicy } from './tail';
 export { EventBuffer } from './buffer';
-export { HttpTransport } from './transport';
-export type { XRayConfig } from './XRay';
-export type { BufferConfig } from './buffer';
-export type { TransportConfig } from './transport';
+export { DiskSpool } from './spool';
+export { HttpTransport, TransportError } from './transport';
+export { FileTransport, StdoutTransport } from './file-transport';
+export { MemoryTransport } from './memory-transport';
+export { AmqpTransport } from './amqp-transport';
+export { CircuitBreaker, CircuitState } from './circuit-breaker';
+export type { XRayConfig, XRayWarning, XRStepScope, DecisionCallback, StepOptions } from './XRay';
+export type { ItemKey } from './identity';
+export type { SamplingConfig, SamplingStrategy, SampleCandidate, SampleMetadata } from './sampler';
+export type { TailSamplingConfig, TailRunSummary } from './tail';
+export type { BufferConfig, BufferStats, FlushLatencyHistogram } from './buffer';
+export type { SpoolConfig, SpoolStats } from './spool';
+export type {
+  Transport,
+  TransportConfig,
+  Compression,
+  RetryEvent,
+  RejectedItem,
+  TransportHealth,
+} from './transport';
+export type { AmqpTransportConfig } from './amqp-transport';
+export type { CircuitBreakerConfig } from './circuit-breaker';
@@ -0,0 +1,137 @@
+/**
+ * In-memory transport for unit tests
+ *
+ * Keeps every batch in memory and offers lookups and assertion helpers, so a
+ * test can run a pipeline with XRay and check what would have been sent:
+ *
+ *   const transport = new MemoryTransport();
+ *   const xray = new XRay({ transport, captureLevel: CaptureLevel.FULL });
+ *   ... run the pipeline ...
+ *   await xray.flush();
+ *   transport.expectDecision({ itemId: 'sku-1', outcome: XRDecisionOutcome.ELIMINATED });
+ *
+ * Design trade-offs:
+ * - Assertion helpers throw plain Errors, so they work with any test runner.
+ * - Runs and steps are sent as snapshots (at start and again when they end);
+ *   `getRuns`/`getSteps` return the latest snapshot per ID, `getItems` everything.
+ */
+
+import { XRDecisionEvent, XRIngestItem, XRRun, XRStep } from '@xray/shared-types';
+import { Transport } from './transport';
+
+export class MemoryTransport implements Transport {
+  private batches: XRIngestItem[][] = [];
+  private failures = 0;
+
+  async sendBatch(items: XRIngestItem[]): Promise<boolean> {
+    if (this.failures > 0) {
+      this.failures--;
+      return false;
+    }
+    this.batches.push([...items]);
+    return true;
+  }
+
+  /**
+   * Reject the next `count` batches (simulate an outage)
+   */
+  failNext(count: number = 1): void {
+    this.failures = count;
+  }
+
+  getBatches(): XRIngestItem[][] {
+    return this.batches;
+  }
+
+  getItems(): XRIngestItem[] {
+    return this.batches.flat();
+  }
+
+  /**
+   * Latest snapshot of every run, in order of first appearance
+   */
+  getRuns(): XRRun[] {
+    return latestById(this.getItems(), 'run');
+  }
+
+  /**
+   * Latest snapshot of every step, in order of first appearance
+   */
+  getSteps(runId?: string): XRStep[] {
+    const steps = latestById(this.getItems(), 'step');
+    return runId ? steps.filter((step) => step.runId === runId) : steps;
+  }
+
+  /**
+   * Decision events whose fields equal every field in `match`
+   */
+  getDecisions(match: Partial<XRDecisionEvent> = {}): XRDecisionEvent[] {
+    const decisions: XRDecisionEvent[] = [];
+    for (const item of this.getItems()) {
+      if (item.type === 'decision' && matches(item.data, match)) {
+        decisions.push(item.data);
+      }
+    }
+    return decisions;
+  }
+
+  /**
+   * The first decision matching `match` - throws if there is none
+   */
+  expectDecision(match: Partial<XRDecisionEvent>): XRDecisionEvent {
+    const [decision] = this.getDecisions(match);
+    if (!decision) {
+      throw new Error(
+        `Expected a decision matching ${JSON.stringify(match)}, ` +
+          `got ${this.getDecisions().length} decisions, none matching`
+      );
+    }
+    return decision;
+  }
+
+  /**
+   * Throws unless exactly `count` decisions match `match`
+   */
+  expectDecisionCount(count: number, match: Partial<XRDecisionEvent> = {}): void {
+    const actual = this.getDecisions(match).length;
+    if (actual !== count) {
+      throw new Error(
+        `Expected ${count} decisions matching ${JSON.stringify(match)}, got ${actual}`
+      );
+    }
+  }
+
+  /**
+   * The latest snapshot of a step, by name - throws if it wasn't sent
+   */
+  expectStep(name: string, runId?: string): XRStep {
+    const step = this.getSteps(runId).find((s) => s.name === name);
+    if (!step) {
+      throw new Error(`Expected a step named "${name}"${runId ? ` in run ${runId}` : ''}`);
+    }
+    return step;
+  }
+
+  clear(): void {
+    this.batches = [];
+    this.failures = 0;
+  }
+}
+
+function latestById(items: XRIngestItem[], type: 'run'): XRRun[];
+function latestById(items: XRIngestItem[], type: 'step'): XRStep[];
+function latestById(items: XRIngestItem[], type: 'run' | 'step'): (XRRun | XRStep)[] {
+  const latest = new Map<string, XRRun | XRStep>();
+  for (const item of items) {
+    if (item.type === type) {
+      latest.set(item.data.id, item.data);
+    }
+  }
+  return [...latest.values()];
+}
+
+function matches(event: XRDecisionEvent, match: Partial<XRDecisionEvent>): boolean {
+  return (Object.keys(match) as (keyof XRDecisionEvent)[]).every(
+    (key) => event[key] === match[key]
+  );
+}
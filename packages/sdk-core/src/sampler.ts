@@ -1,16 +1,25 @@
 /**
  * Adaptive sampling for decision events
- * 
+ *
  * Design trade-offs:
- * - We use deterministic sampling (hash-based) rather than random sampling
- *   to ensure the same items are sampled consistently across retries
- * - Sampling ratio is calculated to keep a target sample size (e.g., 5 from 5000)
- * - We always sample the first and last items to ensure boundary cases are captured
+ * - Sampling happens per step over the step's full list of decisions, not item
+ *   by item. Reservoir, stratified and quantile selection all need to see the
+ *   whole population (or at least its size and outcome mix) to pick a sample.
+ * - Strategies choose from lightweight candidates (outcome, item ID, score),
+ *   not built events - the SDK only builds events for the positions chosen,
+ *   so a 100k-item step costs 100k classifications, not 100k events.
+ * - The selection algorithm is a pluggable `SamplingStrategy`. The default
+ *   (uniform) is deterministic and always includes the first and last items so
+ *   boundary cases are captured and retries sample the same positions.
+ * - Every sampled event records its strategy and a sample weight (population /
+ *   sampled, per outcome) so the backend can extrapolate counts.
  */
 
+import { XRDecisionEvent, XRDecisionOutcome } from '@xray/shared-types';
+
 /**
  * Capture levels determine how much data we collect
- * 
+ *
  * - metrics_only: Only count inputs/outputs, no decision events
  * - sampled: Sample decision events based on adaptive sampling
  * - full: Capture all decision events (no sampling)
@@ -20,72 +29,318 @@ export enum CaptureLevel {
   SAMPLED = 'sampled',
   FULL = 'full',
 }
+
+/**
+ * Built-in sampling strategies
+ *
+ * - uniform: Evenly spaced items, always including first and last (default)
+ * - reservoir: Uniformly random sample of fixed size
+ * - outcome_stratified: Up to N items of every outcome (e.g. N kept AND N eliminated)
+ * - score_quantile: Items spread across the score distribution (min, quartiles, max...)
+ * - item_hash: Items whose ID hashes under a fixed rate - the same items are
+ *   sampled at every step, so an item's path through the pipeline is complete
+ */
+export enum SamplingStrategyType {
+  UNIFORM = 'uniform',
+  RESERVOIR = 'reservoir',
+  OUTCOME_STRATIFIED = 'outcome_stratified',
+  SCORE_QUANTILE = 'score_quantile',
+  ITEM_HASH = 'item_hash',
+}
+
+/**
+ * What a strategy sees of each decision before its event is built
+ */
+export type SampleCandidate = Pick<XRDecisionEvent, 'outcome' | 'itemId' | 'score'>;
+
+/**
+ * Picks which of a step's decisions to capture
+ *
+ * `select` returns positions into `candidates`. `targetSize` is a hint -
+ * strategies with their own budget (stratified per outcome, hash rate) may
+ * return more or fewer.
+ */
+export interface SamplingStrategy {
+  readonly name: string;
+  select(candidates: SampleCandidate[], targetSize: number): number[];
+}
+
+/**
+ * Sampling annotations recorded in a sampled event's metadata
+ */
+export interface SampleMetadata {
+  sampled: boolean; // False when the whole step was captured
+  samplingStrategy: string;
+  sampleWeight: number; // Decisions this event stands for (per outcome)
+}
+
+export interface SampledPosition {
+  position: number;
+  metadata: SampleMetadata;
+}
+
+export interface SamplingConfig {
+  strategy?: SamplingStrategyType | SamplingStrategy; // Default: uniform
+  targetSampleSize?: number; // Fixed sample size per step (default scales with step size)
+  minSampleSize?: number; // Default: 5 - steps this small are captured in full
+  maxSampleSize?: number; // Default: 100
+  perOutcome?: number; // outcome_stratified: items per outcome (default: target size)
+  hashRate?: number; // item_hash: fraction of item IDs sampled (default: 0.01)
+}
+
+/**
+ * Evenly spaced positions over [0, count), always including the first and last
+ */
+function evenlySpaced(count: number, size: number): number[] {
+  if (size >= count) {
+    return Array.from({ length: count }, (_, i) => i);
+  }
+  if (size <= 0) {
+    return [];
+  }
+  if (size === 1) {
+    return [0];
+  }
+  const step = (count - 1) / (size - 1);
+  return Array.from({ length: size }, (_, k) => Math.round(k * step));
+}
+
+/**
+ * 32-bit FNV-1a - cheap, stable across processes and platforms
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export class UniformSamplingStrategy implements SamplingStrategy {
+  readonly name = SamplingStrategyType.UNIFORM;
+
+  select(candidates: SampleCandidate[], targetSize: number): number[] {
+    return evenlySpaced(candidates.length, targetSize);
+  }
+}
+
+/**
+ * Trade-off: Truly random, so repeated runs over the same input capture
+ * different items. Pass a seeded `random` for reproducible samples.
+ */
+export class ReservoirSamplingStrategy implements SamplingStrategy {
+  readonly name = SamplingStrategyType.RESERVOIR;
+
+  constructor(private random: () => number = Math.random) {}
+
+  select(candidates: SampleCandidate[], targetSize: number): number[] {
+    // Algorithm R
+    const reservoir: number[] = [];
+    for (let i = 0; i < candidates.length; i++) {
+      if (reservoir.length < targetSize) {
+        reservoir.push(i);
+      } else {
+        const j = Math.floor(this.random() * (i + 1));
+        if (j < targetSize) {
+          reservoir[j] = i;
+        }
+      }
+    }
+    return reservoir.sort((a, b) => a - b);
+  }
+}
+
+/**
+ * Trade-off: Sample size grows with the number of distinct outcomes, but a
+ * step that eliminates 99% of items still shows what it kept (and vice versa).
+ */
+export class OutcomeStratifiedSamplingStrategy implements SamplingStrategy {
+  readonly name = SamplingStrategyType.OUTCOME_STRATIFIED;
+
+  constructor(private perOutcome?: number) {}
+
+  select(candidates: SampleCandidate[], targetSize: number): number[] {
+    const strata = new Map<XRDecisionOutcome, number[]>();
+    candidates.forEach((candidate, position) => {
+      const stratum = strata.get(candidate.outcome);
+      if (stratum) {
+        stratum.push(position);
+      } else {
+        strata.set(candidate.outcome, [position]);
+      }
+    });
+
+    const perOutcome = this.perOutcome ?? targetSize;
+    const selected: number[] = [];
+    strata.forEach((positions) => {
+      evenlySpaced(positions.length, perOutcome).forEach((i) => selected.push(positions[i]));
+    });
+    return selected.sort((a, b) => a - b);
+  }
+}
+
+/**
+ * Items at evenly spaced quantiles of the score distribution (lowest and
+ * highest score always included). Falls back to uniform when nothing is scored.
+ */
+export class ScoreQuantileSamplingStrategy implements SamplingStrategy {
+  readonly name = SamplingStrategyType.SCORE_QUANTILE;
+
+  select(candidates: SampleCandidate[], targetSize: number): number[] {
+    const scored: number[] = [];
+    candidates.forEach((candidate, position) => {
+      if (typeof candidate.score === 'number' && Number.isFinite(candidate.score)) {
+        scored.push(position);
+      }
+    });
+    if (scored.length === 0) {
+      return evenlySpaced(candidates.length, targetSize);
+    }
+
+    scored.sort((a, b) => (candidates[a].score as number) - (candidates[b].score as number));
+    return evenlySpaced(scored.length, targetSize)
+      .map((i) => scored[i])
+      .sort((a, b) => a - b);
+  }
+}
+
+/**
+ * Trade-off: Ignores the target size - the sample is whatever fraction of IDs
+ * hashes under the rate. A fixed rate is what makes the choice consistent
+ * across steps of different sizes.
+ */
+export class ItemHashSamplingStrategy implements SamplingStrategy {
+  readonly name = SamplingStrategyType.ITEM_HASH;
+  private threshold: number;
+
+  constructor(rate: number = 0.01) {
+    this.threshold = Math.max(0, Math.min(1, rate)) * 0x100000000;
+  }
+
+  select(candidates: SampleCandidate[]): number[] {
+    const selected: number[] = [];
+    candidates.forEach((candidate, position) => {
+      if (fnv1a(candidate.itemId) < this.threshold) {
+        selected.push(position);
+      }
+    });
+    return selected;
+  }
+}
+
+/**
+ * Build a strategy from its config
+ */
+export function createSamplingStrategy(config: SamplingConfig = {}): SamplingStrategy {
+  const { strategy = SamplingStrategyType.UNIFORM } = config;
+  if (typeof strategy === 'object') {
+    return strategy;
+  }
+
+  switch (strategy) {
+    case SamplingStrategyType.RESERVOIR:
+      return new ReservoirSamplingStrategy();
+    case SamplingStrategyType.OUTCOME_STRATIFIED:
+      return new OutcomeStratifiedSamplingStrategy(config.perOutcome);
+    case SamplingStrategyType.SCORE_QUANTILE:
+      return new ScoreQuantileSamplingStrategy();
+    case SamplingStrategyType.ITEM_HASH:
+      return new ItemHashSamplingStrategy(config.hashRate);
+    default:
+      return new UniformSamplingStrategy();
+  }
+}
+
 /**
  * Adaptive sampler that reduces large batches to a manageable sample size
- * 
- * Trade-off: We use a simple modulo-based approach for performance.
- * For production, consider more sophisticated sampling (e.g., reservoir sampling
- * for truly random samples, or stratified sampling for representative samples).
+ *
+ * Trade-off: Selection is delegated to the configured strategy; this class
+ * only sizes the sample and annotates the chosen events.
  */
 export class AdaptiveSampler {
+  private strategy: SamplingStrategy;
+  private targetSampleSize?: number;
+  private minSampleSize: number;
+  private maxSampleSize: number;
+
+  constructor(config: SamplingConfig = {}) {
+    this.strategy = createSamplingStrategy(config);
+    this.targetSampleSize = config.targetSampleSize;
+    this.minSampleSize = config.minSampleSize ?? 5;
+    this.maxSampleSize = config.maxSampleSize ?? 100;
+  }
+
   /**
-   * Determines if an item should be sampled based on the total count
-   * 
-   * @param itemIndex - Zero-based index of the item
-   * @param totalCount - Total number of items
-   * @param targetSampleSize - Desired sample size (default: 5)
-   * @returns true if item should be sampled
-   * 
-   * Design: Always includes first and last items, then samples uniformly
-   * to reach target size. This ensures we capture boundary conditions.
+   * Choose which of a step's decisions to capture
+   *
+   * Design: Returns ascending positions into `candidates`, each with the
+   * metadata its event records (`sampled`, `samplingStrategy`, `sampleWeight`).
+   * The weight is computed per outcome (outcome total / outcome sampled), so
+   * it's exact for stratified samples and a post-stratified estimate for the
+   * others.
    */
-  shouldSample(
-    itemIndex: number,
-    totalCount: number,
-    targetSampleSize: number = 5
-  ): boolean {
-    // Always sample first and last items
-    if (itemIndex === 0 || itemIndex === totalCount - 1) {
-      return true;
+  select(candidates: SampleCandidate[]): SampledPosition[] {
+    if (candidates.length === 0) {
+      return [];
     }
 
-    // If total is already small, sample everything
-    if (totalCount <= targetSampleSize) {
-      return true;
+    const targetSize = this.calculateTargetSampleSize(candidates.length);
+    let positions: number[];
+    try {
+      positions = this.strategy.select(candidates, targetSize);
+    } catch (error) {
+      // A broken custom strategy must never break the pipeline
+      console.warn('[XRay] Sampling strategy failed, using uniform sample:', error);
+      positions = evenlySpaced(candidates.length, targetSize);
     }
 
-    // Calculate sampling ratio
-    // We subtract 2 because we always include first and last
-    const remainingSlots = targetSampleSize - 2;
-    const itemsToSample = totalCount - 2;
-    const ratio = remainingSlots / itemsToSample;
+    const selected = [...new Set(positions)]
+      .filter((position) => Number.isInteger(position) && position >= 0 && position < candidates.length)
+      .sort((a, b) => a - b);
+
+    const totals = new Map<XRDecisionOutcome, number>();
+    const sampledCounts = new Map<XRDecisionOutcome, number>();
+    candidates.forEach(({ outcome }) => totals.set(outcome, (totals.get(outcome) ?? 0) + 1));
+    selected.forEach((position) => {
+      const { outcome } = candidates[position];
+      sampledCounts.set(outcome, (sampledCounts.get(outcome) ?? 0) + 1);
+    });
 
-    // Use deterministic sampling based on index
-    // This ensures consistent sampling across retries
-    const samplePoint = itemIndex / totalCount;
-    return samplePoint < ratio * (remainingSlots / itemsToSample) * totalCount;
+    const isSampled = selected.length < candidates.length;
+    return selected.map((position) => {
+      const { outcome } = candidates[position];
+      return {
+        position,
+        metadata: {
+          sampled: isSampled,
+          samplingStrategy: this.strategy.name,
+          sampleWeight: totals.get(outcome)! / sampledCounts.get(outcome)!,
+        },
+      };
+    });
   }
 
   /**
    * Calculates the target sample size based on input count
-   * 
-   * Trade-off: Fixed target size (5) is simple but may not scale well.
-   * Consider logarithmic scaling for very large batches (e.g., log10(count) * 10).
+   *
+   * Trade-off: Logarithmic scaling (log10(count) * 10) keeps large batches
+   * cheap while still growing with them: 100 items → 20, 10k items → 40.
+   * Override with `targetSampleSize` for a fixed size.
    */
   calculateTargetSampleSize(inputCount: number): number {
-    // For very small batches, sample all
-    if (inputCount <= 5) {
-      return inputCount;
+    if (this.targetSampleSize !== undefined) {
+      return Math.min(this.targetSampleSize, inputCount);
     }
 
-    // For medium batches, sample a fixed amount
-    if (inputCount <= 1000) {
-      return 5;
+    // For very small batches, sample all
+    if (inputCount <= this.minSampleSize) {
+      return inputCount;
     }
 
-    // For large batches, use logarithmic scaling
-    // This prevents excessive sampling while maintaining representativeness
-    return Math.min(Math.ceil(Math.log10(inputCount) * 10), 100);
+    return Math.min(
+      Math.max(this.minSampleSize, Math.ceil(Math.log10(inputCount) * 10)),
+      this.maxSampleSize
+    );
   }
 }
-
@@ -0,0 +1,329 @@
+/**
+ * Durable on-disk spool for batches the ingestion API didn't accept
+ *
+ * Design trade-offs:
+ * - Append-only NDJSON segments, one batch per line. Appending is cheap, and a
+ *   crash mid-write loses at most the torn last line (skipped on replay).
+ * - Segments are capped in size and the spool in total. When the total cap is
+ *   hit the oldest segment is deleted and counted as dropped - a bounded disk
+ *   footprint matters more than the oldest data of a long outage.
+ * - Replay sends the oldest segment with exponential backoff. A segment is
+ *   deleted once all its batches are delivered; a partially replayed segment
+ *   is rewritten with the remaining batches so they aren't sent twice.
+ * - File operations are serialized through one promise chain, but network
+ *   sends happen outside it - appends never wait on a slow replay. A segment
+ *   being replayed is sealed so appends go to a new one.
+ * - Segments found on startup (left by a previous process) are replayed too.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { XRIngestItem } from '@xray/shared-types';
+
+export interface SpoolConfig {
+  directory: string; // Where segments are written (created if missing)
+  maxSegmentBytes: number; // Start a new segment past this size
+  maxTotalBytes: number; // Drop the oldest segments past this size
+  initialBackoffMs: number; // First replay retry delay
+  maxBackoffMs: number; // Replay retry delay cap
+}
+
+export interface SpoolStats {
+  spooledEvents: number; // Items (runs, steps, decisions) written to disk since start
+  replayedEvents: number; // Items delivered from disk since start
+  droppedEvents: number; // Items lost to the size cap or disk errors since start
+  pendingEvents: number; // Items on disk, not yet delivered
+  pendingBytes: number;
+  segments: number;
+}
+
+const DEFAULT_CONFIG: Omit<SpoolConfig, 'directory'> = {
+  maxSegmentBytes: 1024 * 1024, // 1MB
+  maxTotalBytes: 50 * 1024 * 1024, // 50MB
+  initialBackoffMs: 1000,
+  maxBackoffMs: 60000,
+};
+
+const SEGMENT_PREFIX = 'segment-';
+const SEGMENT_SUFFIX = '.ndjson';
+
+interface Segment {
+  file: string;
+  bytes: number;
+  events: number;
+  sealed: boolean; // No more appends (being replayed, or left by a previous process)
+}
+
+/**
+ * File-backed spool. Never throws - disk errors count as dropped items.
+ */
+export class DiskSpool {
+  private config: SpoolConfig;
+  private send: (items: XRIngestItem[]) => Promise<void>;
+  private segments: Segment[] = []; // Oldest first
+  private chain: Promise<void>;
+  private replayTimer: NodeJS.Timeout | null = null;
+  private replaying = false;
+  private backoffMs: number;
+  private segmentCounter = 0;
+  private closed = false;
+  private spooledEvents = 0;
+  private replayedEvents = 0;
+  private droppedEvents = 0;
+
+  /**
+   * @param send - Delivers a batch, rejecting if it wasn't accepted
+   * @param config - Spool location and limits
+   */
+  constructor(
+    send: (items: XRIngestItem[]) => Promise<void>,
+    config: Partial<SpoolConfig> & Pick<SpoolConfig, 'directory'>
+  ) {
+    this.send = send;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.backoffMs = this.config.initialBackoffMs;
+
+    // Pick up segments a previous process didn't get to deliver
+    this.chain = this.recover().catch((error) => {
+      console.warn('[XRay] Failed to read event spool:', error);
+    });
+  }
+
+  /**
+   * Persist a batch for later replay (reopens a closed spool)
+   */
+  append(items: XRIngestItem[]): Promise<void> {
+    if (items.length === 0) {
+      return Promise.resolve();
+    }
+    this.closed = false;
+
+    return this.enqueue(async () => {
+      const line = JSON.stringify(items) + '\n';
+      const bytes = Buffer.byteLength(line);
+      if (bytes > this.config.maxTotalBytes) {
+        this.droppedEvents += items.length;
+        return;
+      }
+
+      // Make room: oldest segments go first
+      while (this.pendingBytes() + bytes > this.config.maxTotalBytes && this.segments.length > 0) {
+        const oldest = this.segments.shift()!;
+        this.droppedEvents += oldest.events;
+        await fs.unlink(oldest.file).catch(() => undefined);
+        console.warn(`[XRay] Event spool full, dropped ${oldest.events} events`);
+      }
+
+      let segment = this.segments[this.segments.length - 1];
+      if (!segment || segment.sealed || segment.bytes + bytes > this.config.maxSegmentBytes) {
+        segment = this.createSegment();
+      }
+
+      try {
+        await fs.appendFile(segment.file, line);
+      } catch (error) {
+        this.droppedEvents += items.length;
+        console.warn('[XRay] Failed to write event spool, dropping batch:', error);
+        return;
+      }
+      segment.bytes += bytes;
+      segment.events += items.length;
+      this.spooledEvents += items.length;
+
+      this.scheduleReplay(this.backoffMs);
+    });
+  }
+
+  /**
+   * Live sends are going through again - replay now instead of waiting out the backoff
+   */
+  notifyDelivered(): void {
+    if (this.closed || this.replaying || this.segments.length === 0) {
+      return;
+    }
+    this.backoffMs = this.config.initialBackoffMs;
+    if (this.replayTimer) {
+      clearTimeout(this.replayTimer);
+      this.replayTimer = null;
+    }
+    this.scheduleReplay(0);
+  }
+
+  getStats(): SpoolStats {
+    return {
+      spooledEvents: this.spooledEvents,
+      replayedEvents: this.replayedEvents,
+      droppedEvents: this.droppedEvents,
+      pendingEvents: this.segments.reduce((sum, segment) => sum + segment.events, 0),
+      pendingBytes: this.pendingBytes(),
+      segments: this.segments.length,
+    };
+  }
+
+  /**
+   * Stop replaying and wait for pending writes (undelivered segments stay on
+   * disk). The next append reopens the spool.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.replayTimer) {
+      clearTimeout(this.replayTimer);
+      this.replayTimer = null;
+    }
+    await this.chain;
+  }
+
+  private async recover(): Promise<void> {
+    await fs.mkdir(this.config.directory, { recursive: true });
+    const files = (await fs.readdir(this.config.directory))
+      .filter((name) => name.startsWith(SEGMENT_PREFIX) && name.endsWith(SEGMENT_SUFFIX))
+      .sort();
+
+    for (const name of files) {
+      const file = path.join(this.config.directory, name);
+      const batches = await this.readSegment(file);
+      const { size } = await fs.stat(file);
+      this.segments.push({
+        file,
+        bytes: size,
+        events: batches.reduce((sum, batch) => sum + batch.length, 0),
+        sealed: true,
+      });
+    }
+
+    this.scheduleReplay(0);
+  }
+
+  private scheduleReplay(delayMs: number): void {
+    if (this.closed || this.replaying || this.replayTimer || this.segments.length === 0) {
+      return;
+    }
+    this.replayTimer = setTimeout(() => {
+      this.replayTimer = null;
+      this.replay().catch((error) => {
+        console.warn('[XRay] Event spool replay failed:', error);
+      });
+    }, delayMs);
+    // Pending replays must not keep the process alive
+    this.replayTimer.unref?.();
+  }
+
+  /**
+   * Deliver segments oldest first until one fails or the spool is empty
+   */
+  private async replay(): Promise<void> {
+    this.replaying = true;
+    try {
+      while (!this.closed) {
+        const segment = this.segments[0];
+        if (!segment) {
+          return;
+        }
+
+        const batches = await this.enqueue(async () => {
+          segment.sealed = true;
+          return this.readSegment(segment.file);
+        });
+
+        let delivered = 0;
+        try {
+          for (const batch of batches) {
+            await this.send(batch);
+            delivered++;
+            this.replayedEvents += batch.length;
+          }
+        } catch {
+          // Still down - keep what's left and back off
+          await this.enqueue(() => this.rewriteSegment(segment, batches.slice(delivered)));
+          const delay = this.backoffMs;
+          this.backoffMs = Math.min(this.backoffMs * 2, this.config.maxBackoffMs);
+          this.replaying = false;
+          this.scheduleReplay(delay);
+          return;
+        }
+
+        await this.enqueue(() => this.removeSegment(segment));
+        this.backoffMs = this.config.initialBackoffMs;
+      }
+    } finally {
+      this.replaying = false;
+    }
+  }
+
+  private createSegment(): Segment {
+    // Zero-padded so lexical order is creation order across restarts
+    const name = `${SEGMENT_PREFIX}${String(Date.now()).padStart(15, '0')}-${String(
+      this.segmentCounter++
+    ).padStart(6, '0')}${SEGMENT_SUFFIX}`;
+    const segment: Segment = {
+      file: path.join(this.config.directory, name),
+      bytes: 0,
+      events: 0,
+      sealed: false,
+    };
+    this.segments.push(segment);
+    return segment;
+  }
+
+  private async readSegment(file: string): Promise<XRIngestItem[][]> {
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf8');
+    } catch {
+      return [];
+    }
+
+    const batches: XRIngestItem[][] = [];
+    for (const line of content.split('\n')) {
+      if (!line) {
+        continue;
+      }
+      try {
+        batches.push(JSON.parse(line));
+      } catch {
+        // Torn write from a crash - the rest of the segment is still good
+      }
+    }
+    return batches;
+  }
+
+  private async rewriteSegment(segment: Segment, remaining: XRIngestItem[][]): Promise<void> {
+    if (!this.segments.includes(segment)) {
+      return; // Dropped by the size cap while it was being replayed
+    }
+    if (remaining.length === 0) {
+      await this.removeSegment(segment);
+      return;
+    }
+    const content = remaining.map((batch) => JSON.stringify(batch) + '\n').join('');
+    try {
+      await fs.writeFile(segment.file, content);
+      segment.bytes = Buffer.byteLength(content);
+      segment.events = remaining.reduce((sum, batch) => sum + batch.length, 0);
+    } catch (error) {
+      // Segment keeps its old content - delivered batches may be sent again
+      console.warn('[XRay] Failed to rewrite event spool segment:', error);
+    }
+  }
+
+  private async removeSegment(segment: Segment): Promise<void> {
+    this.segments = this.segments.filter((s) => s !== segment);
+    await fs.unlink(segment.file).catch(() => undefined);
+  }
+
+  private pendingBytes(): number {
+    return this.segments.reduce((sum, segment) => sum + segment.bytes, 0);
+  }
+
+  /**
+   * Run a file operation after every earlier one (errors don't break the chain)
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.chain.then(operation);
+    this.chain = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Tail-based sampling for decision events
+ *
+ * Design trade-offs:
+ * - With CaptureLevel.SAMPLED the interesting runs (failed, eliminated
+ *   everything) lose exactly the decisions needed to debug them. Instead of
+ *   sending the sample as each step completes, every decision of the run is
+ *   held in memory and the choice - ship everything or just the sample - is
+ *   made at endRun, when the outcome is known.
+ * - Held events are capped per run and across runs. A run that hits a cap is
+ *   spilled according to the spill policy, so a long or huge run can't grow
+ *   the process without bound.
+ * - Runs that never reach endRun (crashed handler, forgotten endRun) are
+ *   expired once no step has completed for `maxHoldMs`, by the same policy -
+ *   otherwise their decisions would be held, and never shipped, forever.
+ * - Steps still report their sample through the regular sampler; tail sampling
+ *   only delays shipping and widens it for bad runs.
+ */
+
+import { XRDecisionEvent, XRRun } from '@xray/shared-types';
+
+/**
+ * What to do with a run whose held events would exceed a memory cap
+ *
+ * - sample: Ship the held sample and fall back to head-based sampling for the
+ *   rest of the run (full events are discarded - cheapest, loses tail data)
+ * - flush: Ship everything held so far in full and keep holding later steps
+ *   (keeps all data, costs bandwidth for runs that turn out fine)
+ *
+ * Expired runs get the same choice: their sample, or everything held.
+ */
+export enum SpillPolicy {
+  SAMPLE = 'sample',
+  FLUSH = 'flush',
+}
+
+/**
+ * What the keep decision is based on, evaluated at endRun
+ */
+export interface TailRunSummary {
+  run: XRRun;
+  failed: boolean;
+  inputCount: number; // Summed over the run's steps
+  outputCount: number;
+  eliminationRatio: number; // 1 - output / input (same formula as the backend's run metrics)
+  eventCount: number; // Full decision events held for the run
+}
+
+export interface TailSamplingConfig {
+  keepFailedRuns?: boolean; // Default: true
+  eliminationRatioThreshold?: number; // Keep runs eliminating more than this (default: 0.9)
+  keepWhen?: (summary: TailRunSummary) => boolean; // Custom keep predicate
+  maxEventsPerRun?: number; // Default: 10000
+  maxTotalEvents?: number; // Across all active runs (default: 100000)
+  spillPolicy?: SpillPolicy; // Default: sample
+  maxHoldMs?: number; // Expire runs with no completed step for this long (default: 10 minutes)
+}
+
+/**
+ * Reason a run's decisions were shipped in full (recorded in event metadata)
+ */
+export type TailKeepReason = 'failed' | 'elimination_ratio' | 'predicate' | 'spill' | 'expired';
+
+interface HeldStep {
+  events: XRDecisionEvent[]; // Every decision of the step
+  sample: XRDecisionEvent[]; // What the sampler picked from events
+}
+
+interface HeldRun {
+  steps: HeldStep[];
+  eventCount: number;
+  inputCount: number;
+  outputCount: number;
+  spilled: boolean; // SAMPLE policy fired - later steps bypass the hold
+  lastHeldAt: number; // When the run's last step completed
+}
+
+const DEFAULT_CONFIG = {
+  keepFailedRuns: true,
+  eliminationRatioThreshold: 0.9,
+  maxEventsPerRun: 10000,
+  maxTotalEvents: 100000,
+  spillPolicy: SpillPolicy.SAMPLE,
+  maxHoldMs: 10 * 60 * 1000,
+};
+
+/**
+ * Holds a run's decision events until the run ends
+ *
+ * Every method returns the events to hand to the buffer right away.
+ */
+export class TailSampler {
+  private config: TailSamplingConfig & typeof DEFAULT_CONFIG;
+  private runs: Map<string, HeldRun> = new Map();
+  private totalEvents = 0;
+
+  constructor(config: TailSamplingConfig = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Hold a completed step's decisions
+   *
+   * @param events - All decision events of the step
+   * @param sample - The sampled subset (what head-based sampling would send)
+   */
+  hold(
+    runId: string,
+    events: XRDecisionEvent[],
+    sample: XRDecisionEvent[],
+    inputCount: number,
+    outputCount: number
+  ): XRDecisionEvent[] {
+    let run = this.runs.get(runId);
+    if (!run) {
+      run = { steps: [], eventCount: 0, inputCount: 0, outputCount: 0, spilled: false, lastHeldAt: 0 };
+      this.runs.set(runId, run);
+    }
+    run.lastHeldAt = Date.now();
+    run.inputCount += inputCount;
+    run.outputCount += outputCount;
+
+    if (run.spilled) {
+      return sample;
+    }
+
+    const overCap =
+      run.eventCount + events.length > this.config.maxEventsPerRun ||
+      this.totalEvents + events.length > this.config.maxTotalEvents;
+    if (!overCap) {
+      run.steps.push({ events, sample });
+      run.eventCount += events.length;
+      this.totalEvents += events.length;
+      return [];
+    }
+
+    console.warn(
+      `[XRay] Tail sampling cap reached for run ${runId} - spilling (${this.config.spillPolicy})`
+    );
+    const held = this.drain(run);
+    if (this.config.spillPolicy === SpillPolicy.FLUSH) {
+      return markKept([...held.flatMap((step) => step.events), ...events], 'spill');
+    }
+    run.spilled = true;
+    return [...held.flatMap((step) => step.sample), ...sample];
+  }
+
+  /**
+   * Decide what to ship for an ended run and forget it
+   */
+  release(run: XRRun): XRDecisionEvent[] {
+    const held = this.runs.get(run.id);
+    if (!held) {
+      return [];
+    }
+    this.runs.delete(run.id);
+
+    const eventCount = held.eventCount;
+    const steps = this.drain(held);
+    const reason = this.keepReason({
+      run,
+      failed: run.error !== null,
+      inputCount: held.inputCount,
+      outputCount: held.outputCount,
+      eliminationRatio: held.inputCount > 0 ? 1 - held.outputCount / held.inputCount : 0,
+      eventCount,
+    });
+
+    return reason
+      ? markKept(steps.flatMap((step) => step.events), reason)
+      : steps.flatMap((step) => step.sample);
+  }
+
+  /**
+   * Ship and forget runs with no completed step for `maxHoldMs`
+   *
+   * Trade-off: An expired run that later completes a step is held again from
+   * scratch, and its endRun only decides over what was held since.
+   */
+  expire(now: number = Date.now()): XRDecisionEvent[] {
+    const expired: XRDecisionEvent[] = [];
+    this.runs.forEach((run, runId) => {
+      if (now - run.lastHeldAt < this.config.maxHoldMs) {
+        return;
+      }
+      this.runs.delete(runId);
+      const steps = this.drain(run);
+      if (steps.length === 0) {
+        return;
+      }
+
+      console.warn(
+        `[XRay] Run ${runId} held decisions for ${this.config.maxHoldMs}ms without ending - expiring (${this.config.spillPolicy})`
+      );
+      const events =
+        this.config.spillPolicy === SpillPolicy.FLUSH
+          ? markKept(steps.flatMap((step) => step.events), 'expired')
+          : steps.flatMap((step) => step.sample);
+      expired.push(...events);
+    });
+    return expired;
+  }
+
+  /**
+   * How often `expire` should run - often enough that runs don't outstay
+   * `maxHoldMs` by much
+   */
+  getExpiryIntervalMs(): number {
+    return Math.max(1000, Math.min(this.config.maxHoldMs / 2, 60000));
+  }
+
+  /**
+   * Full decision events currently held across all runs (for monitoring)
+   */
+  getHeldCount(): number {
+    return this.totalEvents;
+  }
+
+  private keepReason(summary: TailRunSummary): TailKeepReason | null {
+    if (this.config.keepFailedRuns && summary.failed) {
+      return 'failed';
+    }
+    if (summary.eliminationRatio > this.config.eliminationRatioThreshold) {
+      return 'elimination_ratio';
+    }
+    if (this.config.keepWhen) {
+      try {
+        if (this.config.keepWhen(summary)) {
+          return 'predicate';
+        }
+      } catch (error) {
+        // A throwing predicate must never break the pipeline
+        console.warn('[XRay] Tail sampling predicate failed:', error);
+      }
+    }
+    return null;
+  }
+
+  private drain(run: HeldRun): HeldStep[] {
+    const steps = run.steps;
+    this.totalEvents -= run.eventCount;
+    run.steps = [];
+    run.eventCount = 0;
+    return steps;
+  }
+}
+
+/**
+ * Mark events shipped in full (overrides any sampling annotations)
+ */
+function markKept(events: XRDecisionEvent[], reason: TailKeepReason): XRDecisionEvent[] {
+  events.forEach((event) => {
+    event.metadata = {
+      ...event.metadata,
+      sampled: false,
+      sampleWeight: 1,
+      tailKeptReason: reason,
+    };
+  });
+  return events;
+}
@@ -1,49 +1,284 @@
 /**
- * HTTP transport - sends events to ingestion API. Never throws errors.
+ * Transport interface and the default HTTP transport, which sends events to
+ * the ingestion API. Never throws errors.
+ * 
+ * Design trade-offs:
+ * - Bodies above a small threshold are compressed (gzip by default). Decision
+ *   events are repetitive JSON and compress ~10x, which keeps FULL-capture
+ *   batches well under the ingestion body limit.
+ * - Bodies are encoded once per send, not per retry attempt.
+ * - Each body carries an `Idempotency-Key` derived from its content, so a retry
+ *   whose first attempt was queued (response lost) isn't queued twice - and
+ *   the key survives spooling, since the same items encode the same way.
+ * - Every envelope (and NDJSON line) carries `schemaVersion`: a newer
+ *   ingestion API upcasts it to the current shapes, an older one rejects it
+ *   instead of misreading it.
+ * - NDJSON mode posts batches to `/ingest/stream`, which validates line by line
+ *   and never buffers the whole body - for payloads too large for one JSON document.
+ * - Only failures that can succeed later are retried: network errors, timeouts,
+ *   409 (same batch still in flight), 429 and 5xx. Other 4xx responses (validation failures) fail immediately -
+ *   resending the same body gets the same answer.
+ * - Retry delays use full jitter (random in [0, backoff]) so SDK instances that
+ *   failed together don't retry together. A `Retry-After` header overrides it.
+ * - A circuit breaker stops sending while the API is down, so a dead ingestion
+ *   API costs one fast failure per batch instead of retries and timeouts.
+ * - Items the API rejects (validation) are reported per item - to `onRejected`,
+ *   else as a warning - and never resent. A batch rejected item by item counts
+ *   as delivered: spooling it would only get it rejected again.
  */
 
-import { XRDecisionEvent, XRRun, XRStep } from '@xray/shared-types';
+import { createHash } from 'crypto';
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import {
+  XRDecisionEvent,
+  XRIngestItem,
+  XRIngestRejection,
+  XRRun,
+  XRStep,
+  XR_SCHEMA_VERSION,
+} from '@xray/shared-types';
+import { CircuitBreaker, CircuitState } from './circuit-breaker';
+
+/**
+ * Delivers batches of runs, steps and decision events somewhere
+ * 
+ * Implementations: HttpTransport (default), FileTransport, StdoutTransport,
+ * MemoryTransport and AmqpTransport.
+ */
+export interface Transport {
+  /**
+   * Deliver items in order. Never throws.
+   * 
+   * @returns false if the batch wasn't delivered (the buffer spools or drops it)
+   */
+  sendBatch(items: XRIngestItem[]): Promise<boolean>;
+
+  /**
+   * Delivery health (for monitoring), if the transport tracks it
+   */
+  getHealth?(): TransportHealth;
+
+  /**
+   * Release connections and file handles - a later send may reopen them
+   */
+  close?(): Promise<void>;
+}
+
+export type Compression = 'gzip' | 'zstd' | 'none';
 
 export interface TransportConfig {
   apiUrl: string;
+  apiKey?: string; // Sent as X-API-Key - the ingestion API derives the tenant from it
   timeoutMs: number;
   maxRetries: number;
   retryDelayMs: number;
+  compression: Compression; // zstd falls back to gzip where Node's zlib lacks it
+  compressionThresholdBytes: number; // Smaller bodies are sent uncompressed
+  ndjson: boolean; // Send batches as NDJSON to /ingest/stream
+  maxRetryDelayMs: number; // Cap on backoff and Retry-After waits
+  circuitFailureThreshold: number; // Consecutive failed attempts that open the circuit
+  circuitResetTimeoutMs: number; // How long the circuit stays open before a probe
+  onRetry?: (event: RetryEvent) => void; // Called before each retry wait
+  onCircuitStateChange?: (state: CircuitState, previous: CircuitState) => void;
+  onSendFailure?: (error: TransportError) => void; // Called when a send gives up
+  onRejected?: (rejected: RejectedItem[]) => void; // Items the API refused (replaces the warning)
+}
+
+/**
+ * An item the ingestion API refused, with the item as it was sent
+ */
+export interface RejectedItem extends XRIngestRejection {
+  item?: XRIngestItem; // Undefined if the API reported an index outside the batch
+}
+
+export interface RetryEvent {
+  endpoint: string;
+  attempt: number; // 1-based number of the attempt that failed
+  delayMs: number;
+  error: TransportError;
+}
+
+export interface TransportHealth {
+  circuitState: CircuitState;
+  consecutiveFailures: number;
+  lastError: { message: string; status?: number; at: Date } | null;
+  lastSuccessAt: Date | null;
+  rejectedItems: number; // Items refused by the API since start
+}
+
+/**
+ * A failed send, classified for retrying
+ */
+export class TransportError extends Error {
+  constructor(
+    message: string,
+    public retryable: boolean,
+    public status?: number, // HTTP status, when the API answered
+    public retryAfterMs?: number, // From the Retry-After header
+    public body?: unknown // Parsed JSON response body, when there was one
+  ) {
+    super(message);
+    this.name = 'TransportError';
+  }
 }
 
 const DEFAULT_CONFIG: TransportConfig = {
   apiUrl: 'http://localhost:3000',
+  apiKey: process.env.XRAY_API_KEY,
   timeoutMs: 5000,
   maxRetries: 3,
   retryDelayMs: 1000,
+  compression: 'gzip',
+  compressionThresholdBytes: 1024,
+  ndjson: false,
+  maxRetryDelayMs: 30000,
+  circuitFailureThreshold: 5,
+  circuitResetTimeoutMs: 30000,
 };
 
+const gzip = promisify(zlib.gzip);
+
+/**
+ * zstd landed in Node's zlib after the version our typings target - feature-detect it
+ */
+const zstdCompressCallback = (zlib as unknown as {
+  zstdCompress?: (data: string, callback: (error: Error | null, result: Buffer) => void) => void;
+}).zstdCompress;
+const zstdCompress = zstdCompressCallback ? promisify(zstdCompressCallback) : null;
+
+/**
+ * Request body ready to send (possibly compressed)
+ */
+interface EncodedBody {
+  body: string | Uint8Array;
+  headers: Record<string, string>;
+}
+
 /**
  * HTTP transport using fetch API. Simple for now.
  */
-export class HttpTransport {
+export class HttpTransport implements Transport {
   private config: TransportConfig;
+  private circuit: CircuitBreaker;
+  private lastError: TransportHealth['lastError'] = null;
+  private lastSuccessAt: Date | null = null;
+  private warnedUnauthorized = false;
+  private rejectedItems = 0;
 
   constructor(config: Partial<TransportConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.circuit = new CircuitBreaker(
+      {
+        failureThreshold: this.config.circuitFailureThreshold,
+        resetTimeoutMs: this.config.circuitResetTimeoutMs,
+      },
+      (state, previous) => {
+        if (state === CircuitState.OPEN) {
+          console.warn('[XRay] Ingestion API unavailable, pausing sends');
+        }
+        this.notify(this.config.onCircuitStateChange, state, previous);
+      }
+    );
+  }
+
+  /**
+   * Circuit state and last outcome (for monitoring)
+   */
+  getHealth(): TransportHealth {
+    return {
+      circuitState: this.circuit.getState(),
+      consecutiveFailures: this.circuit.getConsecutiveFailures(),
+      lastError: this.lastError,
+      lastSuccessAt: this.lastSuccessAt,
+      rejectedItems: this.rejectedItems,
+    };
+  }
+
+  /**
+   * Send a batch envelope of runs, steps and decision events, in order.
+   * Swallows all errors - never throws.
+   * 
+   * @returns false if the batch couldn't be delivered after retries
+   */
+  async sendBatch(items: XRIngestItem[]): Promise<boolean> {
+    if (items.length === 0) {
+      return true;
+    }
+
+    try {
+      const body = this.config.ndjson
+        ? await this.sendWithRetry('/ingest/stream', await this.encodeNdjson(items))
+        : await this.sendWithRetry('/ingest', await this.encodeJson({
+            type: 'batch',
+            data: items,
+          }));
+      this.reportRejected(items, body);
+      return true;
+    } catch (error) {
+      // Every item invalid (400): resending can't help, report instead of spooling
+      if (
+        error instanceof TransportError &&
+        error.status === 400 &&
+        this.reportRejected(items, error.body) === items.length
+      ) {
+        return true;
+      }
+      // Silent failure - never block the app
+      return false;
+    }
+  }
+
+  /**
+   * Hand the items a response rejected to `onRejected` (or warn).
+   * Returns how many were rejected.
+   * 
+   * Batch responses list them in `rejected`, NDJSON responses in `errors`.
+   */
+  private reportRejected(items: XRIngestItem[], body: unknown): number {
+    const { rejected, errors } = (body ?? {}) as { rejected?: unknown; errors?: unknown };
+    const list = Array.isArray(rejected) ? rejected : Array.isArray(errors) ? errors : [];
+    const rejections = list.filter(
+      (r): r is XRIngestRejection => typeof r?.index === 'number' && typeof r?.error === 'string'
+    );
+    if (rejections.length === 0) {
+      return 0;
+    }
+
+    this.rejectedItems += rejections.length;
+    const rejectedItems: RejectedItem[] = rejections.map((r) => ({ ...r, item: items[r.index] }));
+    if (this.config.onRejected) {
+      this.notify(this.config.onRejected, rejectedItems);
+    } else {
+      const [first] = rejectedItems;
+      console.warn(
+        `[XRay] Ingestion API rejected ${rejectedItems.length} of ${items.length} items, ` +
+          `e.g. ${first.type ?? 'item'} ${first.id ?? `#${first.index}`}: ${first.error}`
+      );
+    }
+    return rejections.length;
   }
 
   /**
    * Send decision events. Swallows all errors - never throws.
+   * 
+   * @returns false if the events couldn't be delivered after retries
    */
-  async sendDecisionEvents(events: XRDecisionEvent[]): Promise<void> {
+  async sendDecisionEvents(events: XRDecisionEvent[]): Promise<boolean> {
     if (events.length === 0) {
-      return;
+      return true;
     }
 
     try {
       // Send to /ingest endpoint with type and data
-      await this.sendWithRetry('/ingest', {
+      await this.sendWithRetry('/ingest', await this.encodeJson({
         type: 'decisions',
         data: events,
-      });
+      }));
+      return true;
     } catch (error) {
       // Silent failure - never block the app
+      return false;
     }
   }
 
@@ -52,10 +287,10 @@ export class HttpTransport {
    */
   async sendRun(run: XRRun): Promise<void> {
     try {
-      await this.sendWithRetry('/ingest', {
+      await this.sendWithRetry('/ingest', await this.encodeJson({
         type: 'run',
         data: run,
-      });
+      }));
     } catch (error) {
       // Silent failure
     }
@@ -66,74 +301,177 @@ export class HttpTransport {
    */
   async sendStep(step: XRStep): Promise<void> {
     try {
-      await this.sendWithRetry('/ingest', {
+      await this.sendWithRetry('/ingest', await this.encodeJson({
         type: 'step',
         data: step,
-      });
+      }));
     } catch (error) {
       // Silent failure
     }
   }
 
   /**
-   * Send with exponential backoff retry
-   * 
-   * Trade-off: Simple retry logic. For production, consider:
-   * - Jitter to avoid thundering herd
-   * - Circuit breaker to stop retrying when API is consistently down
-   * - Different retry strategies for different error types
+   * Send with jittered exponential backoff, honoring Retry-After
    */
   private async sendWithRetry(
     endpoint: string,
-    data: unknown
-  ): Promise<void> {
-    const url = `${this.config.apiUrl}${endpoint}`;
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+    encoded: EncodedBody
+  ): Promise<unknown> {
+    for (let attempt = 0; ; attempt++) {
+      let error: TransportError;
       try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(
-          () => controller.abort(),
-          this.config.timeoutMs
-        );
-
-        const response = await fetch(url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(data),
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        // Success - return immediately
-        return;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-
-        // Don't retry on abort (timeout) or if we've exhausted retries
-        if (
-          lastError.name === 'AbortError' ||
-          attempt >= this.config.maxRetries
-        ) {
-          throw lastError;
-        }
+        const body = await this.attempt(endpoint, encoded);
+        this.lastSuccessAt = new Date();
+        return body;
+      } catch (caught) {
+        error = caught as TransportError;
+      }
 
-        // Exponential backoff before retry
-        const delay = this.config.retryDelayMs * Math.pow(2, attempt);
-        await this.sleep(delay);
+      this.lastError = { message: error.message, status: error.status, at: new Date() };
+      if (!error.retryable || attempt >= this.config.maxRetries) {
+        this.notify(this.config.onSendFailure, error);
+        throw error;
       }
+
+      const delayMs = this.retryDelay(attempt, error);
+      this.notify(this.config.onRetry, { endpoint, attempt: attempt + 1, delayMs, error });
+      await this.sleep(delayMs);
+    }
+  }
+
+  /**
+   * One request, through the circuit breaker. Resolves with the parsed response
+   * body (null if it wasn't JSON), rejects with a TransportError.
+   */
+  private async attempt(endpoint: string, encoded: EncodedBody): Promise<unknown> {
+    if (!this.circuit.tryAcquire()) {
+      // Not retryable: waiting out the backoff won't outlast the reset timeout
+      throw new TransportError('Circuit open - ingestion API unavailable', false);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs);
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.apiUrl}${endpoint}`, {
+        method: 'POST',
+        headers: this.config.apiKey
+          ? { ...encoded.headers, 'X-API-Key': this.config.apiKey }
+          : encoded.headers,
+        body: encoded.body,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      this.circuit.recordFailure();
+      const timedOut = error instanceof Error && error.name === 'AbortError';
+      throw new TransportError(
+        timedOut
+          ? `Timed out after ${this.config.timeoutMs}ms`
+          : error instanceof Error ? error.message : String(error),
+        true
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const body = await response.json().catch(() => null);
+    if (response.ok) {
+      this.circuit.recordSuccess();
+      return body;
+    }
+
+    if ((response.status === 401 || response.status === 403) && !this.warnedUnauthorized) {
+      // Every send will fail the same way - say so once, not per batch
+      this.warnedUnauthorized = true;
+      console.warn('[XRay] Ingestion API rejected the API key - set apiKey or XRAY_API_KEY');
+    }
+
+    const unavailable = response.status === 408 || response.status === 429 || response.status >= 500;
+    if (unavailable) {
+      this.circuit.recordFailure();
+    } else {
+      // The API is up - it rejected this payload (or 409: is still processing it)
+      this.circuit.recordSuccess();
+    }
+    const retryable = unavailable || response.status === 409;
+    throw new TransportError(
+      `HTTP ${response.status}: ${response.statusText}`,
+      retryable,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after')),
+      body
+    );
+  }
+
+  /**
+   * Full jitter: random in [0, min(cap, base * 2^attempt)], unless the API
+   * said how long to wait
+   */
+  private retryDelay(attempt: number, error: TransportError): number {
+    if (error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, this.config.maxRetryDelayMs);
+    }
+    const backoff = Math.min(
+      this.config.retryDelayMs * Math.pow(2, attempt),
+      this.config.maxRetryDelayMs
+    );
+    return Math.random() * backoff;
+  }
+
+  /**
+   * Call a host callback. Never throws.
+   */
+  private notify<A extends unknown[]>(
+    callback: ((...args: A) => void) | undefined,
+    ...args: A
+  ): void {
+    if (!callback) {
+      return;
+    }
+    try {
+      callback(...args);
+    } catch (error) {
+      console.warn('[XRay] Transport callback failed:', error);
+    }
+  }
+
+  private encodeJson(envelope: { type: string; data: unknown }): Promise<EncodedBody> {
+    return this.compress(
+      JSON.stringify({ schemaVersion: XR_SCHEMA_VERSION, ...envelope }),
+      'application/json'
+    );
+  }
+
+  private encodeNdjson(items: XRIngestItem[]): Promise<EncodedBody> {
+    const lines =
+      items.map((item) => JSON.stringify({ schemaVersion: XR_SCHEMA_VERSION, ...item })).join('\n') +
+      '\n';
+    return this.compress(lines, 'application/x-ndjson');
+  }
+
+  /**
+   * Compress a body per config, keyed by its content (Idempotency-Key)
+   * 
+   * Trade-off: Compression failures fall back to sending the body as-is -
+   * bigger requests beat dropped events.
+   */
+  private async compress(text: string, contentType: string): Promise<EncodedBody> {
+    const headers: Record<string, string> = {
+      'Content-Type': contentType,
+      'Idempotency-Key': createHash('sha256').update(text).digest('hex'),
+    };
+    const { compression, compressionThresholdBytes } = this.config;
+    if (compression === 'none' || Buffer.byteLength(text) < compressionThresholdBytes) {
+      return { body: text, headers };
     }
 
-    // If we get here, all retries failed
-    throw lastError || new Error('Unknown error');
+    try {
+      const encoding = compression === 'zstd' && zstdCompress ? 'zstd' : 'gzip';
+      const body = encoding === 'zstd' ? await zstdCompress!(text) : await gzip(text);
+      return { body, headers: { ...headers, 'Content-Encoding': encoding } };
+    } catch {
+      return { body: text, headers };
+    }
   }
 
   /**
@@ -144,3 +482,18 @@ export class HttpTransport {
   }
 }
 
+
+/**
+ * Retry-After is either delay-seconds or an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,94 @@
+/**
+ * API key loading, shared by the ingestion and query APIs
+ *
+ * Why this exists: Both services authenticate the same keys from the same
+ * source (`XRAY_API_KEYS_FILE` / `XRAY_API_KEYS`). One loader means they can't
+ * disagree on which keys are valid or which tenant a key belongs to.
+ *
+ * Design trade-offs:
+ * - Keys are read once at startup - no key store service to run; rotating a
+ *   key means a restart.
+ * - Keys are indexed by SHA-256 digest, so lookup time doesn't depend on how
+ *   much of a guessed key matches, and raw keys aren't kept in memory.
+ * - Node-only (reads the keys file), so it lives here rather than in
+ *   shared-types; validated with zod, so a malformed entry names the field
+ *   that's wrong.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { ApiKeyConfig } from '@xray/shared-types';
+
+const LimitsSchema = z.object({
+  eventsPerSecond: z.number().nonnegative().optional(),
+  burst: z.number().positive().optional(),
+  eventsPerDay: z.number().int().nonnegative().optional(),
+});
+
+const ApiKeysFileSchema = z.array(
+  z.object({
+    key: z.string().min(16),
+    tenantId: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/),
+    name: z.string().optional(),
+    limits: LimitsSchema.optional(),
+    pipelineLimits: LimitsSchema.optional(),
+  })
+);
+
+/**
+ * Digest a key is looked up by
+ */
+export function apiKeyDigest(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Load API keys from XRAY_API_KEYS_FILE and XRAY_API_KEYS, by digest
+ *
+ * File format: [{ "key": "...", "tenantId": "acme", "name": "acme-prod",
+ *   "limits": { "eventsPerSecond": 500, "eventsPerDay": 5000000 },
+ *   "pipelineLimits": { "eventsPerSecond": 100 } }]
+ * Env format: "<key>:<tenantId>,<key>:<tenantId>"
+ *
+ * Throws on malformed config - better to refuse to start than to run open.
+ */
+export function loadApiKeys(env: NodeJS.ProcessEnv = process.env): Map<string, ApiKeyConfig> {
+  const entries: z.infer<typeof ApiKeysFileSchema> = [];
+
+  if (env.XRAY_API_KEYS_FILE) {
+    const parsed = ApiKeysFileSchema.safeParse(
+      JSON.parse(readFileSync(env.XRAY_API_KEYS_FILE, 'utf8'))
+    );
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid API keys file ${env.XRAY_API_KEYS_FILE}: ${parsed.error.errors
+          .map((e) => `${e.path.join('.')} ${e.message}`)
+          .join('; ')}`
+      );
+    }
+    entries.push(...parsed.data);
+  }
+
+  if (env.XRAY_API_KEYS) {
+    for (const pair of env.XRAY_API_KEYS.split(',').map((p) => p.trim()).filter(Boolean)) {
+      const separator = pair.lastIndexOf(':');
+      const parsed = ApiKeysFileSchema.element.safeParse({
+        key: pair.slice(0, separator),
+        tenantId: pair.slice(separator + 1),
+      });
+      if (separator === -1 || !parsed.success) {
+        throw new Error('Invalid XRAY_API_KEYS entry - expected "<key>:<tenantId>", key at least 16 chars');
+      }
+      entries.push(parsed.data);
+    }
+  }
+
+  const keys = new Map<string, ApiKeyConfig>();
+  for (const { key, tenantId, name, limits, pipelineLimits } of entries) {
+    const digest = apiKeyDigest(key);
+    // A digest prefix identifies the key in counters without revealing it
+    keys.set(digest, { id: digest.slice(0, 16), tenantId, name, limits, pipelineLimits });
+  }
+  return keys;
+}
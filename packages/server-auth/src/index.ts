@@ -0,0 +1,6 @@
+/**
+ * Server-side helpers shared by the X-Ray backend services
+ * Node-only - browser code (the dashboard) imports @xray/shared-types instead
+ */
+
+export * from './api-keys';
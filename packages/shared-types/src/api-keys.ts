@@ -0,0 +1,23 @@
+/**
+ * API key configuration, shared by the ingestion and query APIs
+ *
+ * Types only - the loader lives in @xray/server-auth (it reads files and
+ * hashes keys, which the dashboard, also built from this package, can't).
+ */
+
+/**
+ * Ingestion limits for a key (0 = unlimited, overriding a default from the environment)
+ */
+export interface ApiKeyLimits {
+  eventsPerSecond?: number; // Sustained rate
+  burst?: number; // Bucket size
+  eventsPerDay?: number; // Quota per UTC day
+}
+
+export interface ApiKeyConfig {
+  id: string; // Stable, non-secret key ID (a digest prefix)
+  tenantId: string;
+  name?: string; // For logs - which key was used, without the key itself
+  limits?: ApiKeyLimits; // For the key as a whole (ingestion only)
+  pipelineLimits?: ApiKeyLimits; // For each pipeline within the key (ingestion only)
+}
@@ -15,6 +15,7 @@
  * - rank: Steps that order or score items relative to each other
  * - llm: Steps that use language models to make decisions or transformations
  * - transform: Steps that modify data structure or content without filtering
+ * - group: Container step for a reusable sub-pipeline; its child steps make the decisions
  */
 export enum XRStepType {
   FILTER = 'filter',
@@ -22,6 +23,7 @@ export enum XRStepType {
   LLM = 'llm',
   TRANSFORM = 'transform',
   SCORE = 'score',
+  GROUP = 'group',
 }
 
 /**
@@ -34,11 +36,19 @@ export enum XRStepType {
  * - kept: Item passed through the step and continues in the pipeline
  * - eliminated: Item was removed/filtered out and won't continue
  * - scored: Item received a score/ranking but outcome depends on threshold or context
+ * - modified: Item continues in the pipeline but the step changed its fields
+ * - added: Item was created by the step (present in output, not in input)
+ * - merged: Item was folded into another item (e.g. deduplicated) and won't continue on its own
+ * - errored: Processing this item failed; it won't continue
  */
 export enum XRDecisionOutcome {
   KEPT = 'kept',
   ELIMINATED = 'eliminated',
   SCORED = 'scored',
+  MODIFIED = 'modified',
+  ADDED = 'added',
+  MERGED = 'merged',
+  ERRORED = 'errored',
 }
 
 /**
@@ -50,19 +60,64 @@ export enum XRDecisionOutcome {
  * 
  * Properties:
  * - id: Unique identifier for this step instance (allows multiple steps of same type)
+ * - runId: Which run this step belongs to (links to XRRun)
+ * - parentStepId: Enclosing step when this step runs inside another one (null for top-level steps)
+ * - sequence: Zero-based position of this step within its run, in start order
+ * - depth: Nesting level (0 for top-level steps, parent depth + 1 for child steps)
  * - type: The kind of step (filter, rank, llm, transform)
  * - name: Human-readable name for display and debugging
  * - config: Step-specific configuration (extensible for different step types)
  * - startedAt: When step execution began
  * - completedAt: When step execution finished (null if still running or failed)
+ * - captureDurationMs: Time the SDK spent capturing decisions for this step (its own overhead)
+ * - summary: Exact counts for the completed step, computed before sampling (see XRStepSummary)
+ * - error: Error message if the step's business logic threw (its summary counts every input as errored)
+ * - tenantId: Owning tenant, stamped by the ingestion API from the request's API key
+ *   (clients can't set it - any value they send is overwritten)
  */
 export interface XRStep {
   id: string;
+  runId: string;
+  parentStepId?: string | null;
+  sequence?: number;
+  depth?: number;
   type: XRStepType;
   name: string;
   config?: Record<string, unknown>;
   startedAt: Date;
   completedAt: Date | null;
+  captureDurationMs?: number;
+  summary?: XRStepSummary;
+  error?: string | null;
+  tenantId?: string;
+}
+
+/**
+ * XRStepSummary - Authoritative counts for a completed step
+ * 
+ * Why this exists: Decision events are sampled (or not captured at all under
+ * metrics_only), so counts derived from the events that reach the backend are wrong
+ * for sampled runs. The SDK sees every item, so it reports the exact numbers itself.
+ * 
+ * Properties:
+ * - inputCount: Items the step received (1 for non-array input)
+ * - outputCount: Items the step returned (1 for non-array output)
+ * - outcomeCounts: Decisions per outcome before sampling (absent under metrics_only,
+ *   where decisions aren't computed)
+ * - modifiedCount: Items whose fields the step changed, whatever their outcome
+ * - meanRankDisplacement: Mean |positions moved| of surviving items
+ * - durationMs: Time spent in the step's business logic
+ * - sampleRate: Fraction of decisions sent as events when the step completed
+ *   (1 = all, 0 = none). Tail sampling may still ship the rest at run end.
+ */
+export interface XRStepSummary {
+  inputCount: number;
+  outputCount: number;
+  outcomeCounts?: Partial<Record<XRDecisionOutcome, number>>;
+  modifiedCount?: number;
+  meanRankDisplacement?: number;
+  durationMs: number;
+  sampleRate: number;
 }
 
 /**
@@ -77,7 +132,7 @@ export interface XRStep {
  * - id: Unique identifier for this decision event
  * - stepId: Which step made this decision (links to XRStep)
  * - runId: Which run this decision belongs to (links to XRRun)
- * - outcome: The result of the decision (kept, eliminated, scored)
+ * - outcome: The result of the decision (see XRDecisionOutcome)
  * - itemId: Identifier for the item being decided upon (allows tracking same item across steps)
  * - input: The data that was input to the decision logic
  * - output: The result/output of the decision
@@ -85,6 +140,8 @@ export interface XRStep {
  * - score: Optional numeric score (used when outcome is 'scored')
  * - metadata: Extensible field for step-specific or decision-specific data
  * - timestamp: When the decision was made (critical for ordering and time-based queries)
+ * - tenantId: Owning tenant, stamped by the ingestion API from the request's API key
+ *   (clients can't set it - any value they send is overwritten)
  */
 export interface XRDecisionEvent {
   id: string;
@@ -98,6 +155,7 @@ export interface XRDecisionEvent {
   score?: number;
   metadata?: Record<string, unknown>;
   timestamp: Date;
+  tenantId?: string;
 }
 
 /**
@@ -120,6 +178,8 @@ export interface XRDecisionEvent {
  * - completedAt: When the run finished (null if still running or failed)
  * - error: Error message if run failed
  * - metadata: Extensible field for run-level metadata (e.g., user ID, request ID, etc.)
+ * - tenantId: Owning tenant, stamped by the ingestion API from the request's API key
+ *   (clients can't set it - any value they send is overwritten)
  */
 export interface XRRun {
   id: string;
@@ -131,8 +191,15 @@ export interface XRRun {
   completedAt: Date | null;
   error: string | null;
   metadata?: Record<string, unknown>;
+  tenantId?: string;
 }
 
+/**
+ * Tenant of data ingested without API keys configured (single-tenant deployments),
+ * and of data stored before tenants existed
+ */
+export const DEFAULT_TENANT_ID = 'default';
+
 /**
  * XRRunStatus - Possible states of a pipeline run
  * 
@@ -146,3 +213,72 @@ export enum XRRunStatus {
   FAILED = 'failed',
   CANCELLED = 'cancelled',
 }
+
+/**
+ * XRIngestItem - One run, step or decision event inside a batch envelope
+ * 
+ * Why this exists: Sending runs and steps as standalone requests costs one request per
+ * update and gives no ordering against the decision events of the same run. A batch
+ * carries all three kinds, in the order the SDK produced them.
+ */
+export type XRIngestItem =
+  | { type: 'run'; data: XRRun }
+  | { type: 'step'; data: XRStep }
+  | { type: 'decision'; data: XRDecisionEvent };
+
+/**
+ * XRBatchEnvelope - Body of a `POST /ingest` request carrying mixed items
+ * 
+ * Items are validated individually and queued in order; invalid items are
+ * reported without rejecting the rest of the batch.
+ */
+export interface XRBatchEnvelope {
+  schemaVersion?: number; // Shape of the items (XR_SCHEMA_VERSION when sent); absent = 0 (pre-versioning)
+  type: 'batch';
+  data: XRIngestItem[];
+}
+
+/**
+ * Version of the run / step / decision event shapes in this package
+ * 
+ * Why this exists: SDKs in the field outlive backend deploys. Envelopes carry
+ * the version they were built against; the ingestion API upcasts older
+ * versions to the current shape before queueing and rejects newer ones it
+ * can't read. Bump it (and add an upcaster) on any change an older ingestion
+ * API couldn't validate - renamed, retyped or newly required fields. Adding
+ * optional fields doesn't need a bump.
+ */
+export const XR_SCHEMA_VERSION = 1;
+
+/**
+ * XRIngestRejection - One item the ingestion API refused
+ * 
+ * `index` is the item's position in the request (0-based: in the `data` array,
+ * or line number - 1 on `/ingest/stream`), so the sender can match it to what
+ * it sent even when the item had no readable ID.
+ */
+export interface XRIngestRejection {
+  index: number;
+  id?: string; // The item's `id`, when it had one
+  type?: string; // run | step | decision, when known
+  error: string;
+  issues: { path: string; message: string }[]; // Field-level validation errors
+}
+
+/**
+ * XRIngestResponse - Body of a `POST /ingest` response for batches
+ * 
+ * Validation is per item: `accepted` lists the IDs of items that passed,
+ * `rejected` every item that didn't. `queued` can be lower than
+ * `accepted.length` if the queue refused some.
+ */
+export interface XRIngestResponse {
+  success: boolean;
+  queued: number;
+  total: number;
+  partial?: boolean;
+  accepted?: string[];
+  rejected?: XRIngestRejection[];
+  warning?: string; // Rejections as one line (older clients)
+  error?: string;
+}
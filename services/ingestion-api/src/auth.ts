@@ -0,0 +1,85 @@
+/**
+ * API key authentication for ingestion
+ *
+ * Clean separation: Routes never see keys - they get the tenant the key
+ * belongs to (`res.locals.tenantId`) and stamp it onto everything they queue.
+ *
+ * Design trade-offs:
+ * - Keys come from a local JSON file (`XRAY_API_KEYS_FILE`) and/or an env var
+ *   (`XRAY_API_KEYS="key:tenant,key:tenant"`), read once at startup by the
+ *   loader in @xray/server-auth - the query API loads the same keys the same way.
+ * - Keys are looked up by SHA-256 digest, so lookup time doesn't depend on
+ *   how much of a guessed key matches, and raw keys aren't kept in memory.
+ * - With no keys configured, auth is off and everything belongs to the
+ *   default tenant - local development and existing single-tenant setups keep
+ *   working unchanged.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ApiKeyConfig, DEFAULT_TENANT_ID } from '@xray/shared-types';
+import { apiKeyDigest } from '@xray/server-auth';
+import { logger } from './logger';
+import { LimitedKey } from './ratelimit';
+
+export { loadApiKeys } from '@xray/server-auth';
+
+export type ApiKey = ApiKeyConfig & LimitedKey;
+
+/**
+ * The key requests run under when auth is off
+ */
+const ANONYMOUS_KEY: ApiKey = { id: 'anonymous', tenantId: DEFAULT_TENANT_ID };
+
+/**
+ * The API key of a request: `X-API-Key` header or `Authorization: Bearer <key>`
+ */
+function requestKey(req: Request): string | undefined {
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string' && header) {
+    return header;
+  }
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return undefined;
+}
+
+/**
+ * Authenticate requests and resolve their tenant into `res.locals.tenantId`
+ * (and the key itself into `res.locals.apiKey`, for rate limiting)
+ *
+ * Runs before body parsing, so unauthenticated requests are rejected without
+ * reading (or decompressing) their bodies.
+ */
+export function apiKeyAuth(keys: Map<string, ApiKey>): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (keys.size === 0) {
+      res.locals.tenantId = DEFAULT_TENANT_ID;
+      res.locals.apiKey = ANONYMOUS_KEY;
+      return next();
+    }
+
+    const key = requestKey(req);
+    if (!key) {
+      return res.status(401).json({
+        success: false,
+        error: 'Missing API key (X-API-Key header or Authorization: Bearer)',
+      });
+    }
+
+    const apiKey = keys.get(apiKeyDigest(key));
+    if (!apiKey) {
+      logger.warn('Rejected request with unknown API key', { path: req.originalUrl, ip: req.ip });
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid API key',
+      });
+    }
+
+    res.locals.tenantId = apiKey.tenantId;
+    res.locals.apiKeyName = apiKey.name;
+    res.locals.apiKey = apiKey;
+    next();
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Dead-letter record of payloads the ingestion API rejected
+ *
+ * Rejected items never reach the queue, so without a record the only trace of
+ * a bad SDK release is a 400 on the client. Each rejected item is recorded
+ * with why it failed and the payload itself, for debugging and replay.
+ *
+ * Design trade-offs:
+ * - Recording never fails or delays a request: writes are fire-and-forget and
+ *   errors are logged.
+ * - Payloads are truncated past 64KB - a dead-letter record is for diagnosis,
+ *   and FULL-capture events can be large.
+ * - File sink (`INGEST_DEAD_LETTER_DIR`): one NDJSON file per UTC day, capped
+ *   in size. Records past the cap are dropped (counted in the log), so a
+ *   client stuck sending garbage can't fill the disk.
+ * - Without a directory, records go to the log - the service stays stateless
+ *   by default.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { XRIngestRejection } from '@xray/shared-types';
+import { logger } from './logger';
+
+export interface DeadLetterRecord {
+  rejectedAt: string;
+  tenantId: string;
+  apiKeyName?: string;
+  endpoint: string; // /ingest or /ingest/stream
+  rejection: XRIngestRejection;
+  payload: unknown; // The item as sent (a string prefix when truncated)
+  payloadTruncated?: boolean;
+}
+
+/**
+ * Where dead-letter records go. `record` never throws and never blocks.
+ */
+export interface DeadLetterSink {
+  record(records: DeadLetterRecord[]): void;
+}
+
+const MAX_PAYLOAD_BYTES = 64 * 1024;
+
+/**
+ * Build a record, truncating oversized payloads
+ */
+export function deadLetter(
+  context: { tenantId: string; apiKeyName?: string; endpoint: string },
+  rejection: XRIngestRejection,
+  payload: unknown
+): DeadLetterRecord {
+  const record: DeadLetterRecord = {
+    rejectedAt: new Date().toISOString(),
+    ...context,
+    rejection,
+    payload,
+  };
+
+  let serialized: string | undefined;
+  try {
+    serialized = JSON.stringify(payload);
+  } catch {
+    // Circular or otherwise unserializable - can't come from a JSON body, but be safe
+  }
+  if (serialized === undefined) {
+    return { ...record, payload: String(payload), payloadTruncated: true };
+  }
+  if (Buffer.byteLength(serialized) > MAX_PAYLOAD_BYTES) {
+    return { ...record, payload: serialized.slice(0, MAX_PAYLOAD_BYTES), payloadTruncated: true };
+  }
+  return record;
+}
+
+/**
+ * Logs each record (default when no directory is configured)
+ */
+export class LogDeadLetterSink implements DeadLetterSink {
+  record(records: DeadLetterRecord[]): void {
+    for (const record of records) {
+      logger.warn('Rejected ingest item', { ...record });
+    }
+  }
+}
+
+/**
+ * Appends records to `{directory}/rejected-YYYY-MM-DD.ndjson`
+ */
+export class FileDeadLetterSink implements DeadLetterSink {
+  private directory: string;
+  private maxFileBytes: number;
+  private chain: Promise<void> = Promise.resolve();
+  private day = '';
+  private dayBytes = 0;
+  private dayDropped = 0;
+
+  constructor(directory: string, maxFileBytes: number = 100 * 1024 * 1024) {
+    this.directory = directory;
+    this.maxFileBytes = maxFileBytes;
+  }
+
+  record(records: DeadLetterRecord[]): void {
+    if (records.length === 0) {
+      return;
+    }
+    // Serialized through one chain - appends from concurrent requests don't interleave
+    this.chain = this.chain.then(() => this.append(records)).catch((error) => {
+      logger.error('Failed to write dead-letter records', {
+        error: error instanceof Error ? error.message : String(error),
+        count: records.length,
+      });
+    });
+  }
+
+  private async append(records: DeadLetterRecord[]): Promise<void> {
+    const day = new Date().toISOString().slice(0, 10);
+    const file = path.join(this.directory, `rejected-${day}.ndjson`);
+    if (day !== this.day) {
+      if (this.dayDropped > 0) {
+        logger.warn('Dropped dead-letter records past the file cap', {
+          day: this.day,
+          dropped: this.dayDropped,
+        });
+      }
+      this.day = day;
+      this.dayDropped = 0;
+      // Pick up where a previous process left off
+      this.dayBytes = await fs.stat(file).then((stat) => stat.size, () => 0);
+    }
+
+    const lines = records.map((record) => JSON.stringify(record)).join('\n') + '\n';
+    const bytes = Buffer.byteLength(lines);
+    if (this.dayBytes + bytes > this.maxFileBytes) {
+      if (this.dayDropped === 0) {
+        logger.warn('Dead-letter file full, dropping records until tomorrow (UTC)', { file });
+      }
+      this.dayDropped += records.length;
+      return;
+    }
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.appendFile(file, lines);
+    this.dayBytes += bytes;
+  }
+}
+
+/**
+ * File sink when INGEST_DEAD_LETTER_DIR is set, else the log
+ */
+export function createDeadLetterSink(env: NodeJS.ProcessEnv = process.env): DeadLetterSink {
+  if (env.INGEST_DEAD_LETTER_DIR) {
+    const maxMb = Number(env.INGEST_DEAD_LETTER_MAX_MB);
+    return new FileDeadLetterSink(
+      env.INGEST_DEAD_LETTER_DIR,
+      Number.isFinite(maxMb) && maxMb > 0 ? maxMb * 1024 * 1024 : undefined
+    );
+  }
+  return new LogDeadLetterSink();
+}
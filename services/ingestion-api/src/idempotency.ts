@@ -0,0 +1,235 @@
+/**
+ * Idempotency keys for ingestion requests
+ *
+ * A retry whose original response was lost (timeout after the items were
+ * queued) would queue the batch twice. Requests carrying an `Idempotency-Key`
+ * header are remembered: a replay of a completed request gets the original
+ * response (with `Idempotent-Replayed: true`) and queues nothing.
+ *
+ * Design trade-offs:
+ * - Keys are scoped to the API key, so tenants can't collide or probe each
+ *   other's keys.
+ * - The key alone identifies the request - bodies aren't fingerprinted. The
+ *   SDK derives keys from the batch content, so a reused key means the same
+ *   batch.
+ * - Only 2xx responses (something was queued) are remembered. Rejected
+ *   requests queued nothing, so their retry runs again - after a fix or an
+ *   upgrade it may now succeed.
+ * - Except when a rejection comes partway through: a route that queues as it
+ *   reads (`/ingest/stream`) records how far it got in
+ *   `res.locals.idempotencyProgress`. A failed request keeps that progress
+ *   under its key, and the retry gets it back in
+ *   `res.locals.idempotencyResumeFrom` and skips what was already queued.
+ * - A 2xx for a body the queue took only part of isn't remembered either
+ *   (the route sets `res.locals.idempotencyIncomplete`): it's released like
+ *   a failure, so the retry queues the rest - after the recorded progress
+ *   when there is one, otherwise all of it again (the worker drops the
+ *   duplicates).
+ * - A key whose first request is still running gets 409 with Retry-After -
+ *   concurrent duplicates wait instead of both queuing.
+ * - Bounded store: entries expire after a TTL and the oldest are evicted past
+ *   a maximum count - losing a very old key only reopens a tiny window for
+ *   duplicates, which the worker tolerates.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { logger } from './logger';
+
+export interface StoredResponse {
+  status: number;
+  body: unknown;
+}
+
+export type IdempotencyState =
+  | { state: 'new'; progress?: number } // Reserved for this request (progress: what an earlier attempt got through)
+  | { state: 'in_progress' }
+  | { state: 'done'; response: StoredResponse };
+
+/**
+ * Key storage
+ *
+ * Redis mapping: `begin` is a small Lua script (GET; unless the value is a
+ * response or "in_progress", SET key "in_progress" PX lockTtlMs, returning any
+ * recorded progress), `complete` is SET key <response> PX ttlMs, `release` is
+ * SET key "partial:<progress>" PX ttlMs and `abandon` is DEL - each one
+ * atomic, so instances can share it.
+ */
+export interface IdempotencyStore {
+  begin(key: string): Promise<IdempotencyState>;
+  complete(key: string, response: StoredResponse): Promise<void>;
+  release(key: string, progress: number): Promise<void>; // Failed partway - remember how far it got
+  abandon(key: string): Promise<void>;
+}
+
+interface StoreEntry {
+  expiresAt: number;
+  running: boolean; // Reserved by a request still being processed
+  response?: StoredResponse; // Completed
+  progress?: number; // Failed partway, after getting this far
+}
+
+export interface IdempotencyConfig {
+  ttlMs: number; // How long completed requests are remembered
+  lockTtlMs: number; // How long an in-progress reservation holds (outlives a crashed request)
+  maxKeys: number; // Oldest keys are evicted past this
+}
+
+const DEFAULT_CONFIG: IdempotencyConfig = {
+  ttlMs: 24 * 60 * 60 * 1000, // Covers SDK retries and spool replays after an outage
+  lockTtlMs: 60 * 1000,
+  maxKeys: 10000,
+};
+
+/**
+ * In-process store (default)
+ *
+ * Trade-off: Per instance - with several ingestion instances behind a load
+ * balancer, a retry that lands on another instance isn't deduplicated.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private config: IdempotencyConfig;
+  // Insertion-ordered: the first entry is the oldest
+  private entries: Map<string, StoreEntry> = new Map();
+
+  constructor(config: Partial<IdempotencyConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async begin(key: string): Promise<IdempotencyState> {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+    const live = entry && entry.expiresAt > now ? entry : undefined;
+    if (live?.response) {
+      return { state: 'done', response: live.response };
+    }
+    if (live?.running) {
+      return { state: 'in_progress' };
+    }
+
+    const progress = live?.progress;
+    this.set(key, { expiresAt: now + this.config.lockTtlMs, running: true, progress });
+    return { state: 'new', progress };
+  }
+
+  async complete(key: string, response: StoredResponse): Promise<void> {
+    this.set(key, { expiresAt: Date.now() + this.config.ttlMs, running: false, response });
+  }
+
+  async release(key: string, progress: number): Promise<void> {
+    this.set(key, { expiresAt: Date.now() + this.config.ttlMs, running: false, progress });
+  }
+
+  async abandon(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  private set(key: string, entry: StoreEntry): void {
+    // Re-insert so the entry moves to the end (newest)
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    const now = Date.now();
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.entries.size <= this.config.maxKeys && oldest.expiresAt > now) {
+        break;
+      }
+      this.entries.delete(oldestKey);
+    }
+  }
+}
+
+/**
+ * Idempotency store config from IDEMPOTENCY_TTL_SECONDS and IDEMPOTENCY_MAX_KEYS
+ */
+export function idempotencyConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Partial<IdempotencyConfig> {
+  const config: Partial<IdempotencyConfig> = {};
+  const ttlSeconds = Number(env.IDEMPOTENCY_TTL_SECONDS);
+  if (ttlSeconds > 0) {
+    config.ttlMs = ttlSeconds * 1000;
+  }
+  const maxKeys = Number(env.IDEMPOTENCY_MAX_KEYS);
+  if (maxKeys > 0) {
+    config.maxKeys = maxKeys;
+  }
+  return config;
+}
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Deduplicate POSTs by `Idempotency-Key` (requests without one pass through)
+ *
+ * Mounted after auth: `res.locals.apiKey` scopes the keys.
+ */
+export function idempotency(store: IdempotencyStore): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers['idempotency-key'];
+    if (req.method !== 'POST' || typeof header !== 'string' || !header) {
+      return next();
+    }
+    if (header.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `Idempotency-Key longer than ${MAX_KEY_LENGTH} characters`,
+      });
+    }
+
+    const key = `${res.locals.apiKey?.id}:${req.path}:${header}`;
+    let existing: IdempotencyState;
+    try {
+      existing = await store.begin(key);
+    } catch (error) {
+      // Store down: process the request - a possible duplicate beats a lost batch
+      logger.error('Idempotency store unavailable', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return next();
+    }
+
+    if (existing.state === 'done') {
+      logger.info('Idempotent replay', { tenantId: res.locals.tenantId, path: req.originalUrl });
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(existing.response.status).json(existing.response.body);
+    }
+    if (existing.state === 'in_progress') {
+      res.setHeader('Retry-After', '1');
+      return res.status(409).json({
+        success: false,
+        error: 'A request with this Idempotency-Key is still being processed',
+      });
+    }
+
+    res.locals.idempotencyResumeFrom = existing.progress ?? 0;
+
+    // Failed requests free the key - keeping what a partial one got through
+    const release = (): Promise<void> => {
+      const progress: number | undefined = res.locals.idempotencyProgress;
+      return progress ? store.release(key, progress) : store.abandon(key);
+    };
+
+    // Remember the response this request ends with
+    let settled = false;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      settled = true;
+      const status = res.statusCode;
+      const completed = status >= 200 && status < 300 && !res.locals.idempotencyIncomplete;
+      const settle = completed ? store.complete(key, { status, body }) : release();
+      settle.catch((error) =>
+        logger.error('Failed to record idempotency key', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+      return json(body);
+    };
+    // A request that ends without a JSON response (aborted) mustn't hold the key
+    res.on('close', () => {
+      if (!settled) {
+        release().catch(() => undefined);
+      }
+    });
+    next();
+  };
+}
@@ -18,6 +18,11 @@ import { createServer } from 'http';
 import * as net from 'net';
 import { createQueue } from './queue';
 import { createIngestRoutes } from './routes/ingest';
+import { jsonBody } from './body';
+import { apiKeyAuth, loadApiKeys } from './auth';
+import { MemoryRateLimitStore, RateLimiter } from './ratelimit';
+import { createDeadLetterSink } from './dead-letter';
+import { MemoryIdempotencyStore, idempotency, idempotencyConfigFromEnv } from './idempotency';
 import { logger } from './logger';
 
 /**
@@ -56,11 +61,37 @@ async function main() {
   const queue = createQueue();
   logger.info('Queue initialized', { type: process.env.QUEUE_TYPE || 'memory' });
 
+  // API keys (none configured = auth off, single default tenant)
+  const apiKeys = loadApiKeys();
+  if (apiKeys.size === 0) {
+    logger.warn('No API keys configured - ingestion is unauthenticated, all data goes to the default tenant');
+  } else {
+    logger.info('API key auth enabled', {
+      keys: apiKeys.size,
+      tenants: new Set([...apiKeys.values()].map((key) => key.tenantId)).size,
+    });
+  }
+
+  // Rate limits and quotas (defaults from env, overridden per key in the keys file)
+  // Trade-off: In-memory counters are per instance - plug in a shared RateLimitStore to scale out
+  const rateLimiter = new RateLimiter(new MemoryRateLimitStore());
+
+  // Rejected payloads (file when INGEST_DEAD_LETTER_DIR is set, else the log)
+  const deadLetters = createDeadLetterSink();
+
+  // Idempotency-Key dedupe (in-memory, per instance)
+  const idempotencyStore = new MemoryIdempotencyStore(idempotencyConfigFromEnv());
+
   // Create Express app
   const app = express();
 
   // Middleware
-  app.use(express.json({ limit: '10mb' })); // Limit payload size
+  // Authenticate before reading bodies - rejected requests cost no parsing
+  app.use(['/ingest', '/quota'], apiKeyAuth(apiKeys));
+  // JSON bodies, plain or compressed (gzip, deflate, zstd) - limit applies after decompression
+  app.use(jsonBody({ limitBytes: 10 * 1024 * 1024 }));
+  // Replays of completed requests are answered here, before rate limits and queuing
+  app.use('/ingest', idempotency(idempotencyStore));
   app.use(express.urlencoded({ extended: true }));
 
   // Request logging middleware
@@ -74,7 +105,7 @@ async function main() {
   });
 
   // Routes
-  app.use('/', createIngestRoutes(queue));
+  app.use('/', createIngestRoutes(queue, rateLimiter, deadLetters));
 
   // Error handling middleware
   app.use(
@@ -9,11 +9,14 @@
  * that implements the same interface.
  */
 
+import { createHash } from 'crypto';
+import type { ChannelModel, ConfirmChannel } from 'amqplib';
 import {
   XRDecisionEvent,
   XRRun,
   XRStep,
 } from '../../../packages/shared-types/src/index.js';
+import { logger } from './logger';
 
 /**
  * Queue interface - allows swapping implementations
@@ -124,118 +127,228 @@ export class InMemoryQueue implements EventQueue {
   }
 }
 
+/**
+ * RabbitMQ publisher settings
+ */
+const CONFIRM_TIMEOUT_MS = 10000;
+const RECONNECT_INITIAL_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
 /**
  * RabbitMQ queue implementation (production-ready message broker)
+ * 
+ * Design trade-offs:
+ * - Publishes on a confirm channel and only counts a message as queued once the
+ *   broker acks it. `sendToQueue`'s return value only says whether the local
+ *   write buffer has room; a message can still be lost after it.
+ * - Confirms are awaited per push call, so a run of decision events costs one
+ *   round trip, not one per event. A push reports how many messages were
+ *   acked - the /ingest response's `queued` is what the broker took.
+ * - Messages are persistent and queues durable, so acked messages survive a
+ *   broker restart.
+ * - A full write buffer pauses publishing until `drain`, instead of buffering
+ *   without bound.
+ * - Reconnects in the background with exponential backoff. Pushes while
+ *   disconnected fail fast (the SDK retries) rather than waiting for it.
+ * - Each message's `messageId` is the SHA-256 of its body, so a message
+ *   published twice (an unconfirmed publish the SDK retried) carries the same
+ *   ID in the broker and in the worker's logs - the worker skips the copy by
+ *   the same content digest.
  */
 export class RabbitMQQueue implements EventQueue {
-  private connection: any = null;
-  private channel: any = null;
+  private url: string;
+  private connection: ChannelModel | null = null;
+  private channel: ConfirmChannel | null = null;
+  private connecting: Promise<void> | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectDelayMs = RECONNECT_INITIAL_DELAY_MS;
   private decisionQueue = 'xray.decisions';
   private runsQueue = 'xray.runs';
   private stepsQueue = 'xray.steps';
-  private isConnecting = false;
 
   constructor(amqpUrl?: string) {
-    const url = amqpUrl || process.env.AMQP_URL || 'amqp://localhost:5672';
-    this.connect(url);
+    this.url = amqpUrl || process.env.AMQP_URL || 'amqp://localhost:5672';
+    this.connect();
   }
 
-  private async connect(url: string): Promise<void> {
-    if (this.isConnecting) return;
-    this.isConnecting = true;
+  private connect(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = this.openChannel().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
 
+  private async openChannel(): Promise<void> {
     try {
-      const amqp = require('amqplib');
-      this.connection = await amqp.connect(url);
-      this.channel = await this.connection.createChannel();
+      const amqp = await import('amqplib');
+      const connection = await amqp.connect(this.url);
+      const channel = await connection.createConfirmChannel();
 
       // Declare durable queues (survive broker restart)
-      await this.channel.assertQueue(this.decisionQueue, { durable: true });
-      await this.channel.assertQueue(this.runsQueue, { durable: true });
-      await this.channel.assertQueue(this.stepsQueue, { durable: true });
-
-      this.connection.on('error', (err: Error) => {
-        console.error('RabbitMQ connection error', err);
+      await channel.assertQueue(this.decisionQueue, { durable: true });
+      await channel.assertQueue(this.runsQueue, { durable: true });
+      await channel.assertQueue(this.stepsQueue, { durable: true });
+
+      const lost = () => {
+        if (this.connection !== connection) {
+          return;
+        }
+        logger.warn('RabbitMQ connection lost, reconnecting');
         this.connection = null;
         this.channel = null;
+        connection.close().catch(() => undefined);
+        this.scheduleReconnect();
+      };
+      connection.on('error', (err: Error) => {
+        logger.error('RabbitMQ connection error', { error: err.message });
       });
-
-      this.connection.on('close', () => {
-        console.warn('RabbitMQ connection closed, will reconnect');
-        this.connection = null;
-        this.channel = null;
-        this.isConnecting = false;
+      connection.on('close', lost);
+      // A channel error (e.g. a broker-side nack storm) closes only the channel
+      channel.on('error', (err: Error) => {
+        logger.error('RabbitMQ channel error', { error: err.message });
       });
+      channel.on('close', lost);
+
+      this.connection = connection;
+      this.channel = channel;
+      this.reconnectDelayMs = RECONNECT_INITIAL_DELAY_MS;
+      logger.info('Connected to RabbitMQ (publisher confirms)');
     } catch (error) {
-      console.error('Failed to connect to RabbitMQ', error);
-      this.isConnecting = false;
+      logger.error('Failed to connect to RabbitMQ', {
+        error: error instanceof Error ? error.message : String(error),
+        retryInMs: this.reconnectDelayMs,
+      });
+      this.scheduleReconnect();
     }
   }
 
-  private async ensureConnected(): Promise<boolean> {
-    if (this.channel) return true;
-    
-    const url = process.env.AMQP_URL || 'amqp://localhost:5672';
-    await this.connect(url);
-    return !!this.channel;
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) {
+      return;
+    }
+    const delay = this.reconnectDelayMs;
+    this.reconnectDelayMs = Math.min(delay * 2, RECONNECT_MAX_DELAY_MS);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
   }
 
-  async pushDecisionEvent(event: XRDecisionEvent): Promise<boolean> {
-    try {
-      if (!(await this.ensureConnected())) return false;
-
-      const message = Buffer.from(JSON.stringify(event));
-      return this.channel.sendToQueue(
-        this.decisionQueue,
-        message,
-        { persistent: true }
-      );
-    } catch (error) {
-      return false;
+  private async ensureConnected(): Promise<ConfirmChannel | null> {
+    if (this.channel) return this.channel;
+
+    // Wait for an attempt already under way, but don't cut the backoff short
+    if (this.connecting) {
+      await this.connecting;
     }
+    return this.channel;
   }
 
-  async pushRun(run: XRRun): Promise<boolean> {
+  /**
+   * Publish messages in order and wait for the broker's confirms
+   * 
+   * Returns how many were acked. Messages not confirmed within
+   * CONFIRM_TIMEOUT_MS count as not queued (they may still arrive - the
+   * worker tolerates duplicates).
+   */
+  private async publish(messages: { queue: string; data: unknown }[]): Promise<number> {
+    if (messages.length === 0) return 0;
+    const channel = await this.ensureConnected();
+    if (!channel) return 0;
+
+    const acked: boolean[] = [];
+    const confirms: Promise<void>[] = [];
     try {
-      if (!(await this.ensureConnected())) return false;
-
-      const message = Buffer.from(JSON.stringify(run));
-      return this.channel.sendToQueue(
-        this.runsQueue,
-        message,
-        { persistent: true }
-      );
+      for (const { queue, data } of messages) {
+        const index = confirms.length;
+        const body = Buffer.from(JSON.stringify(data));
+        let written = true;
+        confirms.push(
+          new Promise<void>((resolve) => {
+            written = channel.sendToQueue(
+              queue,
+              body,
+              {
+                persistent: true,
+                contentType: 'application/json',
+                messageId: createHash('sha256').update(body).digest('hex'),
+              },
+              (err: Error | null) => {
+                acked[index] = !err;
+                resolve();
+              }
+            );
+          })
+        );
+        if (!written) {
+          await waitForDrain(channel);
+        }
+      }
     } catch (error) {
-      return false;
+      // Channel closed mid-publish - the rest weren't sent
+      logger.error('Failed to publish to RabbitMQ', {
+        error: error instanceof Error ? error.message : String(error),
+        published: confirms.length,
+        total: messages.length,
+      });
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.all(confirms),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, CONFIRM_TIMEOUT_MS);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    const ackedCount = acked.filter(Boolean).length;
+    if (ackedCount < messages.length) {
+      logger.warn('RabbitMQ did not confirm all messages', {
+        acked: ackedCount,
+        total: messages.length,
+      });
     }
+    return ackedCount;
+  }
+
+  async pushDecisionEvent(event: XRDecisionEvent): Promise<boolean> {
+    return (await this.publish([{ queue: this.decisionQueue, data: event }])) === 1;
+  }
+
+  async pushRun(run: XRRun): Promise<boolean> {
+    return (await this.publish([{ queue: this.runsQueue, data: run }])) === 1;
   }
 
   async pushStep(step: XRStep): Promise<boolean> {
-    try {
-      if (!(await this.ensureConnected())) return false;
-
-      const message = Buffer.from(JSON.stringify(step));
-      return this.channel.sendToQueue(
-        this.stepsQueue,
-        message,
-        { persistent: true }
-      );
-    } catch (error) {
-      return false;
-    }
+    return (await this.publish([{ queue: this.stepsQueue, data: step }])) === 1;
   }
 
   async pushDecisionEvents(events: XRDecisionEvent[]): Promise<number> {
-    let count = 0;
-    for (const event of events) {
-      if (await this.pushDecisionEvent(event)) {
-        count++;
-      }
-    }
-    return count;
+    return this.publish(events.map((event) => ({ queue: this.decisionQueue, data: event })));
   }
 }
 
+/**
+ * Resolve once the channel's write buffer drains (or the channel closes or
+ * errors - nothing more will be written either way)
+ */
+function waitForDrain(channel: ConfirmChannel): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      channel.removeListener('drain', done);
+      channel.removeListener('close', done);
+      channel.removeListener('error', done);
+      resolve();
+    };
+    channel.once('drain', done);
+    channel.once('close', done);
+    channel.once('error', done);
+  });
+}
+
 /**
  * HTTP queue implementation (for local development with queue-service)
  */
@@ -0,0 +1,490 @@
+/**
+ * Rate limits and daily quotas for ingestion
+ *
+ * Clean separation: Counters live behind `RateLimitStore`, so limits can be
+ * shared across ingestion instances (Redis) without touching the routes.
+ *
+ * Design trade-offs:
+ * - Limits count items (runs, steps, decision events), not requests - one
+ *   batch of 5,000 FULL-capture events costs 5,000, not 1.
+ * - Token bucket for rate (sustained `eventsPerSecond`, bursts up to `burst`)
+ *   plus a fixed UTC-day window for quota. A request bigger than the burst is
+ *   admitted only when the bucket is full and leaves it in debt, so large
+ *   batches aren't rejected forever.
+ * - Two scopes: per API key and per pipeline within a key, so one runaway
+ *   pipeline hits its own limit before it eats the key's. Decision events and
+ *   steps don't carry a pipeline ID - it's resolved from the runs this
+ *   instance has seen (bounded cache, per tenant - run IDs are only unique
+ *   within one). Items of unknown runs count against the key only.
+ * - Whole requests are admitted or rejected (429 + Retry-After) - no partial
+ *   queuing, so the SDK can simply retry the batch. A rejected request costs
+ *   nothing: scopes are charged one by one (each store call stays atomic) and
+ *   whatever was charged before the rejecting one is refunded.
+ */
+
+export interface Limits {
+  eventsPerSecond?: number; // Sustained rate (unset or 0 = unlimited)
+  burst?: number; // Bucket size (default: 5 seconds' worth)
+  eventsPerDay?: number; // Quota per UTC day (unset or 0 = unlimited)
+}
+
+export interface BucketResult {
+  allowed: boolean;
+  tokens: number; // Tokens left (negative while in debt)
+  retryAfterMs: number; // When the request would be admitted (0 if allowed)
+}
+
+export interface WindowResult {
+  allowed: boolean;
+  count: number; // Window total after this call (unchanged when rejected)
+}
+
+/**
+ * Counter storage
+ *
+ * Every method must be atomic per key - with Redis each maps to a small Lua
+ * script (bucket: HGET/HSET tokens + updatedAt; window: GET, INCRBY and
+ * PEXPIRE when under the limit; refunds: the same with the amount negated),
+ * so concurrent instances can't overspend.
+ */
+export interface RateLimitStore {
+  /**
+   * Refill the bucket to `nowMs`, then take `cost` tokens if allowed
+   */
+  takeTokens(
+    key: string,
+    cost: number,
+    ratePerSecond: number,
+    capacity: number,
+    nowMs: number
+  ): Promise<BucketResult>;
+
+  /**
+   * Give back tokens taken by `takeTokens` (never past `capacity`)
+   */
+  returnTokens(
+    key: string,
+    amount: number,
+    ratePerSecond: number,
+    capacity: number,
+    nowMs: number
+  ): Promise<void>;
+
+  /**
+   * Tokens available at `nowMs` without taking any
+   */
+  peekTokens(key: string, ratePerSecond: number, capacity: number, nowMs: number): Promise<number>;
+
+  /**
+   * Add `amount` to a window counter unless that would exceed `limit`
+   */
+  addToWindow(key: string, amount: number, limit: number, ttlMs: number): Promise<WindowResult>;
+
+  /**
+   * Take back `amount` added by `addToWindow` (never below 0)
+   */
+  removeFromWindow(key: string, amount: number): Promise<void>;
+
+  /**
+   * Current window count (0 if the window doesn't exist)
+   */
+  getWindow(key: string): Promise<number>;
+}
+
+/**
+ * In-process store (default)
+ *
+ * Trade-off: Each ingestion instance enforces limits on its own - N instances
+ * behind a load balancer admit up to N times the configured rate. Use a shared
+ * store when running more than one.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets: Map<string, { tokens: number; updatedAt: number }> = new Map();
+  private windows: Map<string, { count: number; expiresAt: number }> = new Map();
+  private operations = 0;
+
+  async takeTokens(
+    key: string,
+    cost: number,
+    ratePerSecond: number,
+    capacity: number,
+    nowMs: number
+  ): Promise<BucketResult> {
+    const tokens = this.refill(key, ratePerSecond, capacity, nowMs);
+    this.sweep(nowMs);
+
+    // Oversized requests go through on a full bucket and leave it in debt
+    if (tokens >= cost || tokens >= capacity) {
+      this.buckets.set(key, { tokens: tokens - cost, updatedAt: nowMs });
+      return { allowed: true, tokens: tokens - cost, retryAfterMs: 0 };
+    }
+
+    this.buckets.set(key, { tokens, updatedAt: nowMs });
+    const needed = Math.min(cost, capacity) - tokens;
+    return { allowed: false, tokens, retryAfterMs: Math.ceil((needed / ratePerSecond) * 1000) };
+  }
+
+  async returnTokens(
+    key: string,
+    amount: number,
+    ratePerSecond: number,
+    capacity: number,
+    nowMs: number
+  ): Promise<void> {
+    const tokens = this.refill(key, ratePerSecond, capacity, nowMs);
+    this.buckets.set(key, { tokens: Math.min(capacity, tokens + amount), updatedAt: nowMs });
+  }
+
+  async peekTokens(
+    key: string,
+    ratePerSecond: number,
+    capacity: number,
+    nowMs: number
+  ): Promise<number> {
+    return this.refill(key, ratePerSecond, capacity, nowMs);
+  }
+
+  async addToWindow(
+    key: string,
+    amount: number,
+    limit: number,
+    ttlMs: number
+  ): Promise<WindowResult> {
+    const now = Date.now();
+    this.sweep(now);
+    let window = this.windows.get(key);
+    if (!window || window.expiresAt <= now) {
+      window = { count: 0, expiresAt: now + ttlMs };
+      this.windows.set(key, window);
+    }
+
+    if (window.count + amount > limit) {
+      return { allowed: false, count: window.count };
+    }
+    window.count += amount;
+    return { allowed: true, count: window.count };
+  }
+
+  async removeFromWindow(key: string, amount: number): Promise<void> {
+    const window = this.windows.get(key);
+    if (window && window.expiresAt > Date.now()) {
+      window.count = Math.max(0, window.count - amount);
+    }
+  }
+
+  async getWindow(key: string): Promise<number> {
+    const window = this.windows.get(key);
+    return window && window.expiresAt > Date.now() ? window.count : 0;
+  }
+
+  private refill(key: string, ratePerSecond: number, capacity: number, nowMs: number): number {
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      return capacity;
+    }
+    const elapsedSeconds = Math.max(0, nowMs - bucket.updatedAt) / 1000;
+    return Math.min(capacity, bucket.tokens + elapsedSeconds * ratePerSecond);
+  }
+
+  /**
+   * Drop expired windows and idle (full) buckets now and then
+   */
+  private sweep(nowMs: number): void {
+    if (++this.operations % 1000 !== 0) {
+      return;
+    }
+    this.windows.forEach((window, key) => {
+      if (window.expiresAt <= nowMs) {
+        this.windows.delete(key);
+      }
+    });
+    // A bucket idle for an hour has refilled at any sane rate
+    this.buckets.forEach((bucket, key) => {
+      if (nowMs - bucket.updatedAt > 60 * 60 * 1000) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Rate limit / quota rejection
+ */
+export interface RateLimitRejection {
+  reason: 'rate_limit' | 'quota';
+  scope: 'key' | 'pipeline';
+  pipelineId?: string;
+  retryAfterSeconds: number;
+}
+
+/**
+ * A deduction made while admitting a request - refunded if a later scope rejects it
+ */
+type Charge =
+  | { kind: 'bucket'; key: string; cost: number; ratePerSecond: number; capacity: number }
+  | { kind: 'window'; key: string; cost: number };
+
+export interface UsageReport {
+  limits: Limits;
+  tokensAvailable: number | null; // null when rate is unlimited
+  usedToday: number;
+  remainingToday: number | null; // null when quota is unlimited
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_KNOWN_RUNS = 100000;
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function msUntilUtcMidnight(now: number): number {
+  return DAY_MS - (now % DAY_MS);
+}
+
+/**
+ * Parse a limit from the environment (unset or invalid = undefined)
+ */
+function envLimit(value: string | undefined): number | undefined {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Default limits from RATE_LIMIT_EVENTS_PER_SECOND, RATE_LIMIT_BURST and
+ * QUOTA_EVENTS_PER_DAY (per key) and their PIPELINE_ prefixed variants (per
+ * pipeline). API keys can override both in the keys file.
+ */
+export function defaultLimitsFromEnv(env: NodeJS.ProcessEnv = process.env): {
+  key: Limits;
+  pipeline: Limits;
+} {
+  return {
+    key: {
+      eventsPerSecond: envLimit(env.RATE_LIMIT_EVENTS_PER_SECOND),
+      burst: envLimit(env.RATE_LIMIT_BURST),
+      eventsPerDay: envLimit(env.QUOTA_EVENTS_PER_DAY),
+    },
+    pipeline: {
+      eventsPerSecond: envLimit(env.PIPELINE_RATE_LIMIT_EVENTS_PER_SECOND),
+      burst: envLimit(env.PIPELINE_RATE_LIMIT_BURST),
+      eventsPerDay: envLimit(env.PIPELINE_QUOTA_EVENTS_PER_DAY),
+    },
+  };
+}
+
+/**
+ * What the limiter needs to know about an API key
+ */
+export interface LimitedKey {
+  id: string; // Stable, non-secret key ID (counters are per key)
+  tenantId: string; // Run IDs are resolved to pipelines within the key's tenant
+  limits?: Limits; // Overrides the defaults for the key as a whole
+  pipelineLimits?: Limits; // Overrides the defaults for each pipeline within the key
+}
+
+/**
+ * An item as charged - requests are charged before validation, so its type
+ * and data are whatever the client sent (validated items fit too)
+ */
+export interface ChargedItem {
+  type: unknown;
+  data: unknown;
+}
+
+/**
+ * Admits or rejects ingestion requests against per-key and per-pipeline limits
+ */
+export class RateLimiter {
+  private store: RateLimitStore;
+  private defaults: { key: Limits; pipeline: Limits };
+  private runPipelines: Map<string, string> = new Map(); // tenantId:runId → pipelineId, insertion-ordered
+
+  constructor(store: RateLimitStore, defaults = defaultLimitsFromEnv()) {
+    this.store = store;
+    this.defaults = defaults;
+  }
+
+  /**
+   * Charge a request's items. Returns null when admitted.
+   */
+  async admit(key: LimitedKey, items: ChargedItem[]): Promise<RateLimitRejection | null> {
+    if (items.length === 0) {
+      return null;
+    }
+
+    const perPipeline = new Map<string, number>();
+    for (const item of items) {
+      const pipelineId = this.pipelineOf(key.tenantId, item);
+      if (pipelineId) {
+        perPipeline.set(pipelineId, (perPipeline.get(pipelineId) ?? 0) + 1);
+      }
+    }
+
+    const now = Date.now();
+    const charges: Charge[] = [];
+    let rejection: RateLimitRejection | null = null;
+
+    const keyRejection = await this.charge(
+      `key:${key.id}`,
+      this.keyLimits(key),
+      items.length,
+      now,
+      charges
+    );
+    if (keyRejection) {
+      rejection = { ...keyRejection, scope: 'key' };
+    }
+
+    for (const [pipelineId, count] of perPipeline) {
+      if (rejection) {
+        break;
+      }
+      const pipelineRejection = await this.charge(
+        `key:${key.id}:pipeline:${pipelineId}`,
+        this.pipelineLimits(key),
+        count,
+        now,
+        charges
+      );
+      if (pipelineRejection) {
+        rejection = { ...pipelineRejection, scope: 'pipeline', pipelineId };
+      }
+    }
+
+    if (rejection) {
+      // Nothing is queued - give back what the other scopes were charged
+      await this.refund(charges, now);
+    }
+    return rejection;
+  }
+
+  /**
+   * Current usage for a key, or one of its pipelines
+   */
+  async usage(key: LimitedKey, pipelineId?: string): Promise<UsageReport> {
+    const scope = pipelineId ? `key:${key.id}:pipeline:${pipelineId}` : `key:${key.id}`;
+    const limits = pipelineId ? this.pipelineLimits(key) : this.keyLimits(key);
+    const now = Date.now();
+    const usedToday = await this.store.getWindow(`quota:${scope}:${utcDay(now)}`);
+
+    return {
+      limits,
+      tokensAvailable: limits.eventsPerSecond
+        ? Math.floor(
+            await this.store.peekTokens(
+              `bucket:${scope}`,
+              limits.eventsPerSecond,
+              this.capacity(limits),
+              now
+            )
+          )
+        : null,
+      usedToday,
+      remainingToday: limits.eventsPerDay ? Math.max(0, limits.eventsPerDay - usedToday) : null,
+    };
+  }
+
+  private keyLimits(key: LimitedKey): Limits {
+    return { ...this.defaults.key, ...key.limits };
+  }
+
+  private pipelineLimits(key: LimitedKey): Limits {
+    return { ...this.defaults.pipeline, ...key.pipelineLimits };
+  }
+
+  /**
+   * Rate first, then quota - rate-limited requests don't use up the quota.
+   * Successful deductions are appended to `charges`.
+   */
+  private async charge(
+    scope: string,
+    limits: Limits,
+    cost: number,
+    now: number,
+    charges: Charge[]
+  ): Promise<Omit<RateLimitRejection, 'scope'> | null> {
+    if (limits.eventsPerSecond) {
+      const bucketKey = `bucket:${scope}`;
+      const capacity = this.capacity(limits);
+      const bucket = await this.store.takeTokens(
+        bucketKey,
+        cost,
+        limits.eventsPerSecond,
+        capacity,
+        now
+      );
+      if (!bucket.allowed) {
+        return { reason: 'rate_limit', retryAfterSeconds: Math.ceil(bucket.retryAfterMs / 1000) };
+      }
+      charges.push({
+        kind: 'bucket',
+        key: bucketKey,
+        cost,
+        ratePerSecond: limits.eventsPerSecond,
+        capacity,
+      });
+    }
+
+    if (limits.eventsPerDay) {
+      const windowKey = `quota:${scope}:${utcDay(now)}`;
+      const window = await this.store.addToWindow(
+        windowKey,
+        cost,
+        limits.eventsPerDay,
+        msUntilUtcMidnight(now)
+      );
+      if (!window.allowed) {
+        return { reason: 'quota', retryAfterSeconds: Math.ceil(msUntilUtcMidnight(now) / 1000) };
+      }
+      charges.push({ kind: 'window', key: windowKey, cost });
+    }
+    return null;
+  }
+
+  private async refund(charges: Charge[], now: number): Promise<void> {
+    for (const charge of charges) {
+      if (charge.kind === 'bucket') {
+        await this.store.returnTokens(
+          charge.key,
+          charge.cost,
+          charge.ratePerSecond,
+          charge.capacity,
+          now
+        );
+      } else {
+        await this.store.removeFromWindow(charge.key, charge.cost);
+      }
+    }
+  }
+
+  private capacity(limits: Limits): number {
+    return limits.burst ?? (limits.eventsPerSecond ?? 0) * 5;
+  }
+
+  /**
+   * Pipeline of an item - runs carry it, steps and events are looked up by run
+   * within the tenant
+   */
+  private pipelineOf(tenantId: string, item: ChargedItem): string | undefined {
+    const data: Record<string, unknown> =
+      typeof item.data === 'object' && item.data !== null ? (item.data as Record<string, unknown>) : {};
+    if (item.type !== 'run') {
+      return this.runPipelines.get(`${tenantId}:${data.runId}`);
+    }
+
+    const { id, pipelineId } = data;
+    if (typeof id === 'string' && typeof pipelineId === 'string') {
+      const runKey = `${tenantId}:${id}`;
+      if (!this.runPipelines.has(runKey)) {
+        if (this.runPipelines.size >= MAX_KNOWN_RUNS) {
+          // Forget the oldest run
+          this.runPipelines.delete(this.runPipelines.keys().next().value as string);
+        }
+        this.runPipelines.set(runKey, pipelineId);
+      }
+      return pipelineId;
+    }
+    return undefined;
+  }
+}
@@ -7,8 +7,18 @@
  */
 
 import { Router, Request, Response } from 'express';
+import { XRDecisionEvent, XRIngestItem, XRIngestRejection } from '@xray/shared-types';
 import { EventQueue } from '../queue';
+import { BodyError, decodedBody, readLines } from '../body';
+import { ChargedItem, RateLimiter, RateLimitRejection } from '../ratelimit';
+import { ApiKey } from '../auth';
+import { DeadLetterSink, deadLetter } from '../dead-letter';
 import {
+  SUPPORTED_SCHEMA_VERSIONS,
+  rejectionOf,
+  resolveSchemaVersion,
+  validateBatch,
+  validateIngestItem,
   validateDecisionEvent,
   validateDecisionEvents,
   validateRun,
@@ -16,6 +26,128 @@ import {
 } from '../validation';
 import { logger } from '../logger';
 
+/**
+ * Stamp the authenticated tenant onto a run, step or event
+ * 
+ * Overwrites whatever the client sent - the tenant comes from the API key only.
+ */
+function withTenant<T extends { tenantId?: string }>(value: T, tenantId: string): T {
+  return { ...value, tenantId };
+}
+
+/**
+ * Queue batch items in order
+ * 
+ * Consecutive decision events are pushed together (one queue call per run of
+ * decisions) - ordering between runs, steps and decisions is preserved.
+ * Returns the number of items queued.
+ */
+async function queueBatchItems(
+  queue: EventQueue,
+  items: XRIngestItem[],
+  tenantId: string
+): Promise<number> {
+  let queuedCount = 0;
+  let decisions: XRDecisionEvent[] = [];
+
+  const pushDecisions = async () => {
+    if (decisions.length > 0) {
+      queuedCount += await queue.pushDecisionEvents(decisions);
+      decisions = [];
+    }
+  };
+
+  for (const item of items) {
+    if (item.type === 'decision') {
+      decisions.push(withTenant(item.data, tenantId));
+      continue;
+    }
+    await pushDecisions();
+    const queued =
+      item.type === 'run'
+        ? await queue.pushRun(withTenant(item.data, tenantId))
+        : await queue.pushStep(withTenant(item.data, tenantId));
+    if (queued) {
+      queuedCount++;
+    }
+  }
+  await pushDecisions();
+
+  return queuedCount;
+}
+
+/**
+ * The items of a `/ingest` body, unvalidated - what rate limits are charged for
+ * 
+ * Invalid items are charged too: they cost validation and count toward abuse.
+ */
+function requestItems(type: string, data: unknown): ChargedItem[] {
+  switch (type) {
+    case 'decision':
+    case 'run':
+    case 'step':
+      return [{ type, data }];
+    case 'decisions':
+      return Array.isArray(data)
+        ? data.map((event: unknown) => ({ type: 'decision', data: event }))
+        : [];
+    case 'batch':
+      return Array.isArray(data)
+        ? data
+            .filter((item: unknown): item is object => typeof item === 'object' && item !== null)
+            .map((item) => {
+              const { type, data } = item as Partial<ChargedItem>;
+              return { type, data };
+            })
+        : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * 429 with `Retry-After` (seconds) - the SDK transport waits that long before retrying
+ */
+function rejectRateLimited(
+  res: Response,
+  rejection: RateLimitRejection,
+  tenantId: string,
+  extra: Record<string, unknown> = {}
+): Response {
+  logger.warn('Ingestion rate limited', { tenantId, apiKey: res.locals.apiKeyName, ...rejection });
+  const limit = rejection.reason === 'quota' ? 'Daily event quota' : 'Rate limit';
+  res.setHeader('Retry-After', String(rejection.retryAfterSeconds));
+  return res.status(429).json({
+    success: false,
+    error: `${limit} exceeded for ${
+      rejection.scope === 'pipeline' ? `pipeline ${rejection.pipelineId}` : 'API key'
+    }`,
+    ...rejection,
+    ...extra,
+  });
+}
+
+/**
+ * 503 when the queue took none of the valid items, so the SDK retries (or
+ * spools) the batch instead of counting it as delivered. Partially queued
+ * batches get 200 with the true `queued` count.
+ */
+function rejectQueueUnavailable(res: Response, report: Record<string, unknown>): Response {
+  logger.error('Queue accepted none of the items', { tenantId: res.locals.tenantId });
+  return res.status(503).json({
+    success: false,
+    error: 'Queue unavailable - nothing was queued',
+    queued: 0,
+    ...report,
+  });
+}
+
+/**
+ * NDJSON stream limits
+ */
+const STREAM_MAX_LINE_BYTES = 1024 * 1024; // One item per line - 1MB is far above a normal event
+const STREAM_CHUNK_SIZE = 500; // Valid lines queued per push (bounds memory per request)
+
 /**
  * Create ingestion routes
  * 
@@ -23,22 +155,50 @@ import { logger } from '../logger';
  * Alternative: Separate endpoints (`/ingest/events`, `/ingest/runs`, `/ingest/steps`),
  * but single endpoint is simpler and more flexible.
  */
-export function createIngestRoutes(queue: EventQueue): Router {
+export function createIngestRoutes(
+  queue: EventQueue,
+  rateLimiter: RateLimiter,
+  deadLetters: DeadLetterSink
+): Router {
   const router = Router();
 
+  /**
+   * Record rejected items with their payloads (`payloads[rejection.index]`)
+   */
+  const recordRejected = (
+    res: Response,
+    endpoint: string,
+    rejected: XRIngestRejection[],
+    payloads: unknown[]
+  ) => {
+    const context = { tenantId: res.locals.tenantId, apiKeyName: res.locals.apiKeyName, endpoint };
+    deadLetters.record(rejected.map((r) => deadLetter(context, r, payloads[r.index])));
+  };
+
   /**
    * POST /ingest
    * 
-   * Accepts:
+   * Accepts (all optionally with `schemaVersion`, default 0 - older versions are
+   * upcast to the current shape, newer ones rejected with 400):
    * - Single decision event: { type: 'decision', data: XRDecisionEvent }
    * - Batch of decision events: { type: 'decisions', data: XRDecisionEvent[] }
    * - Run: { type: 'run', data: XRRun }
    * - Step: { type: 'step', data: XRStep }
+   * - Batch of mixed items, queued in order:
+   *   { type: 'batch', data: [{ type: 'run' | 'step' | 'decision', data }] }
    * 
    * Graceful error handling: Malformed events return 400 with error details,
-   * but valid events in a batch are still processed.
+   * but valid events in a batch are still processed. Batch responses list the
+   * IDs of `accepted` items and every `rejected` item (index, ID, zod issues);
+   * rejected payloads go to the dead-letter sink.
+   * 
+   * Everything queued is stamped with the tenant of the request's API key.
+   * Requests over the key's (or a pipeline's) rate limit or daily quota are
+   * rejected whole with 429 - nothing is queued.
    */
   router.post('/ingest', async (req: Request, res: Response) => {
+    const tenantId: string = res.locals.tenantId;
+    const apiKey: ApiKey = res.locals.apiKey;
     try {
       const { type, data } = req.body;
 
@@ -52,14 +212,41 @@ export function createIngestRoutes(queue: EventQueue): Router {
         });
       }
 
+      const version = resolveSchemaVersion(req.body.schemaVersion);
+      if (!version.success) {
+        logger.warn('Unsupported schema version', {
+          tenantId,
+          schemaVersion: req.body.schemaVersion,
+        });
+        const items = requestItems(type, data);
+        recordRejected(
+          res,
+          '/ingest',
+          items.map((item, index) => rejectionOf(index, item.type, item.data, version)),
+          items
+        );
+        return res.status(400).json({
+          success: false,
+          error: version.error,
+          supportedSchemaVersions: SUPPORTED_SCHEMA_VERSIONS,
+        });
+      }
+      const schemaVersion = version.data!;
+
+      const rejection = await rateLimiter.admit(apiKey, requestItems(type, data));
+      if (rejection) {
+        return rejectRateLimited(res, rejection, tenantId);
+      }
+
       switch (type) {
         case 'decision': {
-          const validation = validateDecisionEvent(data);
+          const validation = validateDecisionEvent(data, schemaVersion);
           if (!validation.success) {
             logger.warn('Invalid decision event', {
               error: validation.error,
               data,
             });
+            recordRejected(res, '/ingest', [rejectionOf(0, type, data, validation)], [data]);
             return res.status(400).json({
               success: false,
               error: validation.error,
@@ -67,7 +254,7 @@ export function createIngestRoutes(queue: EventQueue): Router {
             });
           }
 
-          const queued = await queue.pushDecisionEvent(validation.data!);
+          const queued = await queue.pushDecisionEvent(withTenant(validation.data!, tenantId));
           if (!queued) {
             logger.error('Failed to queue decision event', {
               eventId: validation.data!.id,
@@ -92,7 +279,9 @@ export function createIngestRoutes(queue: EventQueue): Router {
 
         case 'decisions': {
           // Batch ingestion
-          const validation = validateDecisionEvents(data);
+          const validation = validateDecisionEvents(data, schemaVersion);
+          const rejected = validation.rejected ?? [];
+          recordRejected(res, '/ingest', rejected, Array.isArray(data) ? data : []);
           if (!validation.success || !validation.data) {
             logger.warn('Invalid decision events batch', {
               error: validation.error,
@@ -101,11 +290,27 @@ export function createIngestRoutes(queue: EventQueue): Router {
             return res.status(400).json({
               success: false,
               error: validation.error,
+              queued: 0,
+              total: Array.isArray(data) ? data.length : 0,
+              accepted: [],
+              rejected,
+            });
+          }
+
+          const queuedCount = await queue.pushDecisionEvents(
+            validation.data.map((event) => withTenant(event, tenantId))
+          );
+          const totalCount = data.length;
+          if (queuedCount === 0) {
+            return rejectQueueUnavailable(res, {
+              total: totalCount,
+              accepted: validation.data.map((event) => event.id),
+              rejected,
             });
           }
 
-          const queuedCount = await queue.pushDecisionEvents(validation.data);
-          const totalCount = validation.data.length;
+          // Valid events the queue didn't take - a retry should queue them
+          res.locals.idempotencyIncomplete = queuedCount < validation.data.length;
 
           logger.info('Decision events batch queued', {
             queued: queuedCount,
@@ -118,17 +323,20 @@ export function createIngestRoutes(queue: EventQueue): Router {
             queued: queuedCount,
             total: totalCount,
             partial: queuedCount < totalCount,
+            accepted: validation.data.map((event) => event.id),
+            rejected,
             warning: validation.error,
           });
         }
 
         case 'run': {
-          const validation = validateRun(data);
+          const validation = validateRun(data, schemaVersion);
           if (!validation.success) {
             logger.warn('Invalid run', {
               error: validation.error,
               data,
             });
+            recordRejected(res, '/ingest', [rejectionOf(0, type, data, validation)], [data]);
             return res.status(400).json({
               success: false,
               error: validation.error,
@@ -136,7 +344,7 @@ export function createIngestRoutes(queue: EventQueue): Router {
             });
           }
 
-          const queued = await queue.pushRun(validation.data!);
+          const queued = await queue.pushRun(withTenant(validation.data!, tenantId));
           if (!queued) {
             logger.error('Failed to queue run', {
               runId: validation.data!.id,
@@ -160,12 +368,13 @@ export function createIngestRoutes(queue: EventQueue): Router {
         }
 
         case 'step': {
-          const validation = validateStep(data);
+          const validation = validateStep(data, schemaVersion);
           if (!validation.success) {
             logger.warn('Invalid step', {
               error: validation.error,
               data,
             });
+            recordRejected(res, '/ingest', [rejectionOf(0, type, data, validation)], [data]);
             return res.status(400).json({
               success: false,
               error: validation.error,
@@ -173,7 +382,7 @@ export function createIngestRoutes(queue: EventQueue): Router {
             });
           }
 
-          const queued = await queue.pushStep(validation.data!);
+          const queued = await queue.pushStep(withTenant(validation.data!, tenantId));
           if (!queued) {
             logger.error('Failed to queue step', {
               stepId: validation.data!.id,
@@ -186,7 +395,7 @@ export function createIngestRoutes(queue: EventQueue): Router {
 
           logger.info('Step queued', {
             stepId: validation.data!.id,
-            runId: validation.data!.type,
+            runId: validation.data!.runId,
             name: validation.data!.name,
           });
 
@@ -196,11 +405,63 @@ export function createIngestRoutes(queue: EventQueue): Router {
           });
         }
 
+        case 'batch': {
+          const validation = validateBatch(data, schemaVersion);
+          const rejected = validation.rejected ?? [];
+          recordRejected(res, '/ingest', rejected, Array.isArray(data) ? data : []);
+          if (!validation.success || !validation.data) {
+            logger.warn('Invalid batch', {
+              error: validation.error,
+              count: Array.isArray(data) ? data.length : 0,
+            });
+            return res.status(400).json({
+              success: false,
+              error: validation.error,
+              queued: 0,
+              total: Array.isArray(data) ? data.length : 0,
+              accepted: [],
+              rejected,
+            });
+          }
+
+          const queuedCount = await queueBatchItems(queue, validation.data, tenantId);
+          const totalCount = data.length;
+          if (queuedCount === 0) {
+            return rejectQueueUnavailable(res, {
+              total: totalCount,
+              accepted: validation.data.map((item) => item.data.id),
+              rejected,
+            });
+          }
+
+          // Valid items the queue didn't take - a retry should queue them
+          res.locals.idempotencyIncomplete = queuedCount < validation.data.length;
+
+          logger.info('Batch queued', {
+            tenantId,
+            queued: queuedCount,
+            total: totalCount,
+            runs: validation.data.filter((item) => item.type === 'run').length,
+            steps: validation.data.filter((item) => item.type === 'step').length,
+            rejected: rejected.length,
+          });
+
+          return res.status(200).json({
+            success: true,
+            queued: queuedCount,
+            total: totalCount,
+            partial: queuedCount < totalCount,
+            accepted: validation.data.map((item) => item.data.id),
+            rejected,
+            warning: validation.error,
+          });
+        }
+
         default:
           logger.warn('Unknown event type', { type });
           return res.status(400).json({
             success: false,
-            error: `Unknown event type: ${type}. Expected: decision, decisions, run, or step`,
+            error: `Unknown event type: ${type}. Expected: decision, decisions, run, step, or batch`,
           });
       }
     } catch (error) {
@@ -217,6 +478,203 @@ export function createIngestRoutes(queue: EventQueue): Router {
     }
   });
 
+  /**
+   * POST /ingest/stream
+   * 
+   * NDJSON body (Content-Type: application/x-ndjson), one item per line:
+   *   { "schemaVersion": 1, "type": "run" | "step" | "decision", "data": ... }
+   * 
+   * Lines are validated and queued as they arrive (in order, in chunks), so the
+   * body is never held in memory and isn't subject to the JSON body limit.
+   * Invalid lines are reported individually ({ line, error, ... }, 1-based,
+   * with the same fields as batch rejections) without rejecting the rest.
+   * 
+   * Rate limits are charged per chunk: a chunk over the limit stops the stream
+   * with 429, reporting what was queued before it. With an Idempotency-Key the
+   * lines queued so far are recorded under the key, and a retry with the same
+   * key and body skips them (`resumedFrom`: lines skipped) instead of queuing
+   * them twice.
+   */
+  router.post('/ingest/stream', async (req: Request, res: Response) => {
+    const tenantId: string = res.locals.tenantId;
+    const apiKey: ApiKey = res.locals.apiKey;
+    const resumeFrom: number = res.locals.idempotencyResumeFrom ?? 0;
+    let lineNumber = 0;
+    let queuedCount = 0;
+    let pending: XRIngestItem[] = [];
+    let checkpointing = true; // Every valid line so far was queued
+    const errors: (XRIngestRejection & { line: number })[] = [];
+
+    const reject = (rejection: XRIngestRejection, payload: unknown) => {
+      errors.push({ line: lineNumber, ...rejection });
+      recordRejected(res, '/ingest/stream', [rejection], [payload]);
+    };
+
+    // Returns the rejection when the chunk is over a limit (and not queued)
+    const flushPending = async (): Promise<RateLimitRejection | null> => {
+      if (pending.length === 0) {
+        return null;
+      }
+      const rejection = await rateLimiter.admit(apiKey, pending);
+      if (!rejection) {
+        const queued = await queueBatchItems(queue, pending, tenantId);
+        queuedCount += queued;
+        // Progress only covers lines with nothing left to queue - a retry with
+        // the same key starts after them
+        checkpointing = checkpointing && queued === pending.length;
+        if (checkpointing) {
+          res.locals.idempotencyProgress = lineNumber;
+        }
+      }
+      pending = [];
+      return rejection;
+    };
+    const rejectStream = (rejection: RateLimitRejection) =>
+      rejectRateLimited(res, rejection, tenantId, {
+        queued: queuedCount,
+        total: lineNumber,
+        resumedFrom: resumeFrom,
+        errors,
+      });
+
+    try {
+      for await (const line of readLines(decodedBody(req), STREAM_MAX_LINE_BYTES)) {
+        lineNumber++;
+        if (lineNumber <= resumeFrom) {
+          // Queued by an earlier attempt with this Idempotency-Key
+          continue;
+        }
+
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(line);
+        } catch {
+          reject({ index: lineNumber - 1, error: 'Malformed JSON', issues: [] }, line);
+          continue;
+        }
+
+        const { schemaVersion, type, data } = (parsed ?? {}) as {
+          schemaVersion?: unknown;
+          type?: unknown;
+          data?: unknown;
+        };
+        const version = resolveSchemaVersion(schemaVersion);
+        if (!version.success) {
+          reject(rejectionOf(lineNumber - 1, type, data, version), parsed);
+          continue;
+        }
+
+        const validation = validateIngestItem(parsed, version.data);
+        if (!validation.success || !validation.data) {
+          const rejection = rejectionOf(lineNumber - 1, type, data, validation);
+          reject(
+            {
+              ...rejection,
+              error: rejection.issues.length
+                ? `${rejection.error}: ${rejection.issues.map((i) => `${i.path} ${i.message}`).join('; ')}`
+                : rejection.error,
+            },
+            parsed
+          );
+          continue;
+        }
+
+        pending.push(validation.data);
+        if (pending.length >= STREAM_CHUNK_SIZE) {
+          const rejection = await flushPending();
+          if (rejection) {
+            return rejectStream(rejection);
+          }
+        }
+      }
+      const rejection = await flushPending();
+      if (rejection) {
+        return rejectStream(rejection);
+      }
+    } catch (error) {
+      // Items before the failure are already queued - report them with the error
+      await flushPending().catch(() => undefined);
+      const status = error instanceof BodyError ? error.status : 400;
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn('NDJSON stream aborted', { error: message, line: lineNumber + 1, queued: queuedCount });
+      return res.status(status).json({
+        success: false,
+        error: `Stream aborted at line ${lineNumber + 1}: ${message}`,
+        queued: queuedCount,
+        total: lineNumber,
+        resumedFrom: resumeFrom,
+        errors,
+      });
+    }
+
+    logger.info('NDJSON stream queued', {
+      tenantId,
+      queued: queuedCount,
+      total: lineNumber,
+      resumedFrom: resumeFrom,
+      rejected: errors.length,
+    });
+
+    // Lines this attempt handled (the rest were queued by an earlier one)
+    const handled = Math.max(0, lineNumber - resumeFrom);
+    if (handled > 0 && errors.length === handled) {
+      return res.status(400).json({
+        success: false,
+        error: 'All lines invalid',
+        queued: 0,
+        total: lineNumber,
+        errors,
+      });
+    }
+    if (handled > 0 && queuedCount === 0) {
+      return rejectQueueUnavailable(res, { total: lineNumber, errors });
+    }
+
+    // Valid lines the queue didn't take - a retry resumes from the last checkpoint
+    res.locals.idempotencyIncomplete = !checkpointing;
+
+    return res.status(200).json({
+      success: true,
+      queued: queuedCount,
+      total: lineNumber,
+      resumedFrom: resumeFrom,
+      partial: queuedCount < handled,
+      errors,
+    });
+  });
+
+  /**
+   * GET /quota
+   * 
+   * Limits and today's usage for the request's API key. `?pipeline_id=` adds
+   * the same for one of its pipelines. Days are UTC.
+   */
+  router.get('/quota', async (req: Request, res: Response) => {
+    const apiKey: ApiKey = res.locals.apiKey;
+    const pipelineId = typeof req.query.pipeline_id === 'string' ? req.query.pipeline_id : undefined;
+
+    try {
+      res.json({
+        success: true,
+        data: {
+          tenantId: res.locals.tenantId,
+          key: await rateLimiter.usage(apiKey),
+          pipeline: pipelineId
+            ? { pipelineId, ...(await rateLimiter.usage(apiKey, pipelineId)) }
+            : undefined,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to read quota usage', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  });
+
   /**
    * Health check endpoint
    */
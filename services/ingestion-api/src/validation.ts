@@ -9,10 +9,13 @@ import { z } from 'zod';
 import {
   XRDecisionEvent,
   XRDecisionOutcome,
+  XRIngestItem,
+  XRIngestRejection,
   XRRun,
   XRStep,
   XRStepType,
   XRRunStatus,
+  XR_SCHEMA_VERSION,
 } from '@xray/shared-types';
 
 /**
@@ -65,8 +68,24 @@ const RunSchema = z.object({
 /**
  * Schema for validating XRStep
  */
+const count = z.number().int().nonnegative();
+
+const StepSummarySchema = z.object({
+  inputCount: count,
+  outputCount: count,
+  outcomeCounts: z.record(z.nativeEnum(XRDecisionOutcome), count).optional(),
+  modifiedCount: count.optional(),
+  meanRankDisplacement: z.number().nonnegative().optional(),
+  durationMs: z.number().nonnegative(),
+  sampleRate: z.number().min(0).max(1),
+});
+
 const StepSchema = z.object({
   id: z.string().min(1),
+  runId: z.string().min(1),
+  parentStepId: z.string().min(1).nullable().optional(),
+  sequence: z.number().int().nonnegative().optional(),
+  depth: z.number().int().nonnegative().optional(),
   type: z.nativeEnum(XRStepType),
   name: z.string().min(1),
   config: z.record(z.unknown()).optional(),
@@ -80,8 +99,83 @@ const StepSchema = z.object({
       if (val === null) return null;
       return val instanceof Date ? val : new Date(val);
     }),
+  captureDurationMs: z.number().nonnegative().optional(),
+  summary: StepSummarySchema.optional(),
+  error: z.string().nullable().optional(),
 });
 
+/**
+ * Steps as pre-versioning SDKs send them - the baseline SDK's steps carry no
+ * `runId` (later ones do, along with the optional hierarchy fields)
+ */
+const StepSchemaV0 = StepSchema.extend({
+  runId: z.string().min(1).optional(),
+});
+
+/**
+ * Run ID given to pre-versioning steps that don't name their run - where the
+ * worker filed them before versioning. Their metrics never join a run.
+ */
+const UNKNOWN_RUN_ID = 'unknown';
+
+/**
+ * Schemas by schema version (the envelope's `schemaVersion`)
+ * 
+ * Design trade-offs:
+ * - A payload is validated against the schema of the version it was sent as,
+ *   then upcast one version at a time to the current shape. The queue and the
+ *   worker only ever see the current shape.
+ * - Upcasters run on validated data, so they can rely on the old shape instead
+ *   of defending against garbage.
+ * - Versions below MIN_SCHEMA_VERSION are retired - their schemas and upcasters
+ *   are deleted together once no SDK in the field sends them.
+ * 
+ * To change a shape: add the new schemas under a new version, bump
+ * XR_SCHEMA_VERSION in shared-types, and add an `Upcaster<N, N + 1>` from the
+ * previous one.
+ */
+type ItemType = XRIngestItem['type'];
+
+const SCHEMAS = {
+  0: { decision: DecisionEventSchema, run: RunSchema, step: StepSchemaV0 },
+  1: { decision: DecisionEventSchema, run: RunSchema, step: StepSchema },
+} satisfies Record<number, Record<ItemType, z.ZodTypeAny>>;
+
+type SchemaVersion = keyof typeof SCHEMAS;
+
+/**
+ * An item as validated under version V
+ */
+type VersionedItem<V extends SchemaVersion> = {
+  [T in ItemType]: { type: T; data: z.output<(typeof SCHEMAS)[V][T]> };
+}[ItemType];
+
+/**
+ * Converts a validated item of version `From` to the shape of `To` (= From + 1)
+ */
+type Upcaster<From extends SchemaVersion, To extends SchemaVersion> = (
+  item: VersionedItem<From>
+) => VersionedItem<To>;
+
+/**
+ * Upcasters by the version they convert from
+ */
+const UPCASTERS: { 0: Upcaster<0, 1> } = {
+  0: (item) =>
+    item.type === 'step'
+      ? { type: 'step', data: { ...item.data, runId: item.data.runId ?? UNKNOWN_RUN_ID } }
+      : item,
+};
+
+const MIN_SCHEMA_VERSION = 0;
+
+/**
+ * Unversioned envelopes come from SDKs that predate versioning - version 0
+ */
+const UNVERSIONED_SCHEMA_VERSION = 0;
+
+export const SUPPORTED_SCHEMA_VERSIONS = { min: MIN_SCHEMA_VERSION, max: XR_SCHEMA_VERSION };
+
 /**
  * Validation result type
  */
@@ -90,48 +184,96 @@ export interface ValidationResult<T> {
   data?: T;
   error?: string;
   details?: z.ZodError;
+  rejected?: XRIngestRejection[]; // Batches: the items that failed, by index
 }
 
 /**
- * Validate a decision event
- * 
- * Trade-off: We return a result object rather than throwing.
- * This allows the HTTP layer to handle validation errors gracefully
- * without try/catch blocks.
+ * Field-level issues of a failed validation ({ path: 'data.outcome', message })
  */
-export function validateDecisionEvent(
-  data: unknown
-): ValidationResult<XRDecisionEvent> {
-  try {
-    const parsed = DecisionEventSchema.parse(data);
+export function validationIssues(error?: z.ZodError): XRIngestRejection['issues'] {
+  return (error?.errors ?? []).map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Describe a rejected item - its ID and type are read defensively, the payload
+ * failed validation after all
+ */
+export function rejectionOf(
+  index: number,
+  type: unknown,
+  data: unknown,
+  result: ValidationResult<unknown>
+): XRIngestRejection {
+  const id = (data as { id?: unknown } | null)?.id;
+  return {
+    index,
+    id: typeof id === 'string' ? id : undefined,
+    type: typeof type === 'string' ? type : undefined,
+    error: result.error || 'Unknown error',
+    issues: validationIssues(result.details),
+  };
+}
+
+/**
+ * One-line summary of rejections (the `warning` older clients read)
+ */
+function summarize(noun: string, rejected: XRIngestRejection[]): string {
+  return rejected
+    .map((r) => {
+      const issues = r.issues.map((issue) => `${issue.path} ${issue.message}`).join(', ');
+      return `${noun} ${r.index}: ${r.error}${issues ? ` (${issues})` : ''}`;
+    })
+    .join('; ');
+}
+
+/**
+ * Check an envelope's `schemaVersion` - supported versions resolve to a number
+ */
+export function resolveSchemaVersion(value: unknown): ValidationResult<number> {
+  if (value === undefined || value === null) {
+    return { success: true, data: UNVERSIONED_SCHEMA_VERSION };
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    return { success: false, error: `schemaVersion must be an integer, got ${JSON.stringify(value)}` };
+  }
+  const supported = `supported: ${MIN_SCHEMA_VERSION}-${XR_SCHEMA_VERSION}`;
+  if (value > XR_SCHEMA_VERSION) {
     return {
-      success: true,
-      data: parsed as XRDecisionEvent,
+      success: false,
+      error: `schemaVersion ${value} is newer than this ingestion API understands (${supported}) - upgrade the ingestion API`,
     };
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return {
-        success: false,
-        error: 'Validation failed',
-        details: error,
-      };
-    }
+  }
+  if (value < MIN_SCHEMA_VERSION) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown validation error',
+      error: `schemaVersion ${value} is no longer supported (${supported}) - upgrade the SDK`,
     };
   }
+  return { success: true, data: value };
 }
 
 /**
- * Validate a run
+ * Validate an item against its version's schema and upcast it to the current shape
  */
-export function validateRun(data: unknown): ValidationResult<XRRun> {
+function validateVersioned<T>(type: ItemType, data: unknown, version: number): ValidationResult<T> {
   try {
-    const parsed = RunSchema.parse(data);
+    // resolveSchemaVersion admitted only versions in SCHEMAS
+    let item = {
+      type,
+      data: SCHEMAS[version as SchemaVersion][type].parse(data),
+    } as VersionedItem<SchemaVersion>;
+    for (let from = version; from < XR_SCHEMA_VERSION; from++) {
+      const upcast = UPCASTERS[from as keyof typeof UPCASTERS] as (
+        item: VersionedItem<SchemaVersion>
+      ) => VersionedItem<SchemaVersion>;
+      item = upcast(item);
+    }
     return {
       success: true,
-      data: parsed as XRRun,
+      data: item.data as T,
     };
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -148,36 +290,46 @@ export function validateRun(data: unknown): ValidationResult<XRRun> {
   }
 }
 
+/**
+ * Validate a decision event
+ * 
+ * Trade-off: We return a result object rather than throwing.
+ * This allows the HTTP layer to handle validation errors gracefully
+ * without try/catch blocks.
+ */
+export function validateDecisionEvent(
+  data: unknown,
+  version: number = XR_SCHEMA_VERSION
+): ValidationResult<XRDecisionEvent> {
+  return validateVersioned<XRDecisionEvent>('decision', data, version);
+}
+
+/**
+ * Validate a run
+ */
+export function validateRun(
+  data: unknown,
+  version: number = XR_SCHEMA_VERSION
+): ValidationResult<XRRun> {
+  return validateVersioned<XRRun>('run', data, version);
+}
+
 /**
  * Validate a step
  */
-export function validateStep(data: unknown): ValidationResult<XRStep> {
-  try {
-    const parsed = StepSchema.parse(data);
-    return {
-      success: true,
-      data: parsed as XRStep,
-    };
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return {
-        success: false,
-        error: 'Validation failed',
-        details: error,
-      };
-    }
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown validation error',
-    };
-  }
+export function validateStep(
+  data: unknown,
+  version: number = XR_SCHEMA_VERSION
+): ValidationResult<XRStep> {
+  return validateVersioned<XRStep>('step', data, version);
 }
 
 /**
  * Validate an array of decision events (for batch ingestion)
  */
 export function validateDecisionEvents(
-  data: unknown
+  data: unknown,
+  version: number = XR_SCHEMA_VERSION
 ): ValidationResult<XRDecisionEvent[]> {
   if (!Array.isArray(data)) {
     return {
@@ -187,14 +339,14 @@ export function validateDecisionEvents(
   }
 
   const results: XRDecisionEvent[] = [];
-  const errors: string[] = [];
+  const rejected: XRIngestRejection[] = [];
 
   for (let i = 0; i < data.length; i++) {
-    const result = validateDecisionEvent(data[i]);
+    const result = validateDecisionEvent(data[i], version);
     if (result.success && result.data) {
       results.push(result.data);
     } else {
-      errors.push(`Event ${i}: ${result.error || 'Unknown error'}`);
+      rejected.push(rejectionOf(i, 'decision', data[i], result));
     }
   }
 
@@ -204,14 +356,101 @@ export function validateDecisionEvents(
   if (results.length === 0) {
     return {
       success: false,
-      error: `All events invalid: ${errors.join('; ')}`,
+      error: `All events invalid: ${summarize('Event', rejected)}`,
+      rejected,
     };
   }
 
   return {
     success: true,
     data: results,
-    error: errors.length > 0 ? `Some events invalid: ${errors.join('; ')}` : undefined,
+    error: rejected.length > 0 ? `Some events invalid: ${summarize('Event', rejected)}` : undefined,
+    rejected,
   };
 }
 
+
+/**
+ * Validate one item of a batch envelope or NDJSON stream ({ type, data })
+ */
+export function validateIngestItem(
+  item: unknown,
+  version: number = XR_SCHEMA_VERSION
+): ValidationResult<XRIngestItem> {
+  const { type, data } = (item ?? {}) as { type?: unknown; data?: unknown };
+  switch (type) {
+    case 'run': {
+      const result = validateRun(data, version);
+      if (!result.success) {
+        return { success: false, error: result.error, details: result.details };
+      }
+      return { success: true, data: { type: 'run', data: result.data! } };
+    }
+    case 'step': {
+      const result = validateStep(data, version);
+      if (!result.success) {
+        return { success: false, error: result.error, details: result.details };
+      }
+      return { success: true, data: { type: 'step', data: result.data! } };
+    }
+    case 'decision': {
+      const result = validateDecisionEvent(data, version);
+      if (!result.success) {
+        return { success: false, error: result.error, details: result.details };
+      }
+      return { success: true, data: { type: 'decision', data: result.data! } };
+    }
+    default:
+      return {
+        success: false,
+        error: `Unknown item type ${String(type)}. Expected: run, step, or decision`,
+      };
+  }
+}
+
+/**
+ * Validate the items of a batch envelope (mixed runs, steps and decision events)
+ * 
+ * Items keep their original order - valid items are returned in the order
+ * they were sent, so they can be queued in that order.
+ */
+export function validateBatch(
+  data: unknown,
+  version: number = XR_SCHEMA_VERSION
+): ValidationResult<XRIngestItem[]> {
+  if (!Array.isArray(data)) {
+    return {
+      success: false,
+      error: 'Expected array of batch items',
+    };
+  }
+
+  const results: XRIngestItem[] = [];
+  const rejected: XRIngestRejection[] = [];
+
+  for (let i = 0; i < data.length; i++) {
+    const result = validateIngestItem(data[i], version);
+    if (result.success && result.data) {
+      results.push(result.data);
+    } else {
+      const { type, data: itemData } = (data[i] ?? {}) as { type?: unknown; data?: unknown };
+      rejected.push(rejectionOf(i, type, itemData, result));
+    }
+  }
+
+  // Same partial acceptance as decision event batches
+  if (results.length === 0) {
+    return {
+      success: false,
+      error: `All items invalid: ${summarize('Item', rejected)}`,
+      rejected,
+    };
+  }
+
+  return {
+    success: true,
+    data: results,
+    error: rejected.length > 0 ? `Some items invalid: ${summarize('Item', rejected)}` : undefined,
+    rejected,
+  };
+}
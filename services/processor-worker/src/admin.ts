@@ -0,0 +1,122 @@
+/**
+ * Admin HTTP server for the dead-letter queue
+ *
+ * Routes:
+ * - GET    /dlq?limit=50        List dead letters (oldest first)
+ * - GET    /dlq/:id             Inspect one (payload and failure reason)
+ * - POST   /dlq/:id/replay      Send it back to its queue
+ * - DELETE /dlq/:id            Drop one
+ * - DELETE /dlq                Drop all
+ * - GET    /health
+ *
+ * Design trade-offs:
+ * - Plain node `http` - the worker has no web framework, and this is a handful
+ *   of routes.
+ * - With `XRAY_ADMIN_TOKEN` set, every route except /health needs
+ *   `Authorization: Bearer <token>`. Without it the server only listens on
+ *   127.0.0.1, so dead-letter payloads aren't exposed by default.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { DeadLetterQueue } from './queue';
+import { logger } from './logger';
+
+export interface AdminConfig {
+  port: number;
+  token?: string;
+}
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 1000;
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function authorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Route one admin request
+ */
+async function handle(
+  dlq: DeadLetterQueue,
+  config: AdminConfig,
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const parts = url.pathname.split('/').filter(Boolean);
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    return send(res, 200, { status: 'ok', service: 'processor-worker' });
+  }
+  if (parts[0] !== 'dlq' || parts.length > 3) {
+    return send(res, 404, { success: false, error: 'Not found' });
+  }
+  if (config.token && !authorized(req, config.token)) {
+    return send(res, 401, { success: false, error: 'Missing or invalid admin token' });
+  }
+
+  const id = parts[1] ? decodeURIComponent(parts[1]) : undefined;
+
+  if (req.method === 'GET' && !id) {
+    const requested = parseInt(url.searchParams.get('limit') || '', 10);
+    const limit = requested > 0 ? Math.min(requested, MAX_LIST_LIMIT) : DEFAULT_LIST_LIMIT;
+    const letters = await dlq.listDeadLetters(limit);
+    return send(res, 200, { success: true, data: letters });
+  }
+  if (req.method === 'GET' && id && parts.length === 2) {
+    const letter = await dlq.getDeadLetter(id);
+    return letter
+      ? send(res, 200, { success: true, data: letter })
+      : send(res, 404, { success: false, error: 'Dead letter not found' });
+  }
+  if (req.method === 'POST' && id && parts[2] === 'replay') {
+    if (!(await dlq.replayDeadLetter(id))) {
+      return send(res, 404, { success: false, error: 'Dead letter not found' });
+    }
+    logger.info('Dead letter replayed', { id });
+    return send(res, 200, { success: true, data: { replayed: id } });
+  }
+  if (req.method === 'DELETE' && parts.length <= 2) {
+    const purged = await dlq.purgeDeadLetters(id);
+    if (id && purged === 0) {
+      return send(res, 404, { success: false, error: 'Dead letter not found' });
+    }
+    logger.info('Dead letters purged', { id, purged });
+    return send(res, 200, { success: true, data: { purged } });
+  }
+
+  return send(res, 404, { success: false, error: 'Not found' });
+}
+
+/**
+ * Start the admin server
+ */
+export function startAdminServer(dlq: DeadLetterQueue, config: AdminConfig): Server {
+  const server = createServer((req, res) => {
+    handle(dlq, config, req, res).catch((error) => {
+      logger.error('Admin request failed', {
+        path: req.url,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      send(res, 500, { success: false, error: 'Internal server error' });
+    });
+  });
+
+  const host = config.token ? undefined : '127.0.0.1';
+  server.listen(config.port, host, () => {
+    logger.info('Admin server listening', {
+      port: config.port,
+      host: host ?? 'all interfaces',
+    });
+  });
+  return server;
+}
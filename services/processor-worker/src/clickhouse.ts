@@ -6,7 +6,15 @@
  */
 
 import { createClient, ClickHouseClient } from '@clickhouse/client';
-import { XRRun, XRStep, XRDecisionEvent, XRDecisionOutcome } from '@xray/shared-types';
+import {
+  DEFAULT_TENANT_ID,
+  XRRun,
+  XRStep,
+  XRStepSummary,
+  XRDecisionEvent,
+  XRDecisionOutcome,
+} from '@xray/shared-types';
+import { logger } from './logger';
 
 export interface ClickHouseConfig {
   host: string;
@@ -17,8 +25,11 @@ export interface ClickHouseConfig {
 }
 
 export interface StepMetrics {
+  tenantId: string;
   stepId: string;
   runId: string;
+  parentStepId: string | null;
+  depth: number;
   pipelineId: string;
   stepType: string;
   stepName: string;
@@ -28,11 +39,20 @@ export interface StepMetrics {
   keptCount: number;
   eliminatedCount: number;
   scoredCount: number;
+  modifiedCount: number; // Kept items whose fields changed
+  addedCount: number;
+  mergedCount: number;
+  erroredCount: number;
+  meanRankDisplacement: number; // Mean |positions moved| of surviving items
+  durationMs: number;
+  sampleRate: number; // Fraction of decisions captured as events
+  exactCounts: boolean; // Counts came from the SDK's step summary, not from (sampled) events
   startedAt: Date;
   completedAt: Date | null;
 }
 
 export interface RunMetrics {
+  tenantId: string;
   runId: string;
   pipelineId: string;
   status: string;
@@ -45,6 +65,94 @@ export interface RunMetrics {
   overallEliminationRatio: number;
 }
 
+type Table = 'runs' | 'steps' | 'decision_events';
+
+interface TableSchema {
+  columns: [name: string, type: string][];
+  sortingKey: string[];
+  partitionBy: string;
+}
+
+const TENANT_COLUMN: [string, string] = ['tenant_id', `String DEFAULT '${DEFAULT_TENANT_ID}'`];
+
+/**
+ * Table schemas
+ * 
+ * Sorting keys start with tenant_id: tenant-scoped queries only read their
+ * tenant's part of the index, and ReplacingMergeTree deduplicates within a
+ * tenant - two tenants reusing a run ID can't replace each other's rows.
+ */
+const TABLES: Record<Table, TableSchema> = {
+  runs: {
+    columns: [
+      TENANT_COLUMN,
+      ['run_id', 'String'],
+      ['pipeline_id', 'String'],
+      ['status', 'String'],
+      ['started_at', 'DateTime64(3)'],
+      ['completed_at', 'Nullable(DateTime64(3))'],
+      ['error', 'Nullable(String)'],
+      ['total_steps', 'UInt32'],
+      ['total_input_count', 'UInt64'],
+      ['total_output_count', 'UInt64'],
+      ['overall_elimination_ratio', 'Float64'],
+      ['metadata', 'String'],
+      ['updated_at', 'DateTime64(3) DEFAULT now()'],
+    ],
+    sortingKey: ['tenant_id', 'run_id'],
+    partitionBy: 'toYYYYMM(started_at)',
+  },
+  steps: {
+    columns: [
+      TENANT_COLUMN,
+      ['step_id', 'String'],
+      ['run_id', 'String'],
+      ['parent_step_id', 'Nullable(String)'],
+      ['depth', 'UInt32 DEFAULT 0'],
+      ['pipeline_id', 'String'],
+      ['step_type', 'String'],
+      ['step_name', 'String'],
+      ['input_count', 'UInt64'],
+      ['output_count', 'UInt64'],
+      ['elimination_ratio', 'Float64'],
+      ['kept_count', 'UInt64'],
+      ['eliminated_count', 'UInt64'],
+      ['scored_count', 'UInt64'],
+      ['modified_count', 'UInt64 DEFAULT 0'],
+      ['added_count', 'UInt64 DEFAULT 0'],
+      ['merged_count', 'UInt64 DEFAULT 0'],
+      ['errored_count', 'UInt64 DEFAULT 0'],
+      ['mean_rank_displacement', 'Float64 DEFAULT 0'],
+      ['duration_ms', 'Float64 DEFAULT 0'],
+      ['sample_rate', 'Float64 DEFAULT 1'],
+      ['exact_counts', 'UInt8 DEFAULT 0'],
+      ['started_at', 'DateTime64(3)'],
+      ['completed_at', 'Nullable(DateTime64(3))'],
+      ['updated_at', 'DateTime64(3) DEFAULT now()'],
+    ],
+    sortingKey: ['tenant_id', 'run_id', 'step_id'],
+    partitionBy: 'toYYYYMM(started_at)',
+  },
+  // Decision references only - full payloads are in S3
+  decision_events: {
+    columns: [
+      TENANT_COLUMN,
+      ['event_id', 'String'],
+      ['step_id', 'String'],
+      ['run_id', 'String'],
+      ['pipeline_id', 'String'],
+      ['outcome', 'String'],
+      ['item_id', 'String'],
+      ['score', 'Nullable(Float64)'],
+      ['timestamp', 'DateTime64(3)'],
+      ['s3_key', 'String'],
+      ['updated_at', 'DateTime64(3) DEFAULT now()'],
+    ],
+    sortingKey: ['tenant_id', 'run_id', 'step_id', 'timestamp'],
+    partitionBy: 'toYYYYMM(timestamp)',
+  },
+};
+
 /**
  * ClickHouse client - stores aggregated metrics, not raw events. Raw events go to S3.
  */
@@ -90,69 +198,99 @@ export class ClickHouseStorage {
     // Create database if it doesn't exist
     await this.client.exec({ query: `CREATE DATABASE IF NOT EXISTS ${this.database}` });
 
-    // Create runs table for aggregated run metrics
+    for (const table of Object.keys(TABLES) as Table[]) {
+      await this.client.exec({ query: this.createTableQuery(table, table) });
+    }
+
+    // Columns added after the initial schema - bring existing tables up to date
+    // (rows stored before tenants existed belong to the default tenant)
     await this.client.exec({ query: `
-      CREATE TABLE IF NOT EXISTS ${this.database}.runs (
-        run_id String,
-        pipeline_id String,
-        status String,
-        started_at DateTime64(3),
-        completed_at Nullable(DateTime64(3)),
-        error Nullable(String),
-        total_steps UInt32,
-        total_input_count UInt64,
-        total_output_count UInt64,
-        overall_elimination_ratio Float64,
-        metadata String,
-        updated_at DateTime64(3) DEFAULT now()
-      )
-      ENGINE = ReplacingMergeTree(updated_at)
-      ORDER BY (run_id)
-      PARTITION BY toYYYYMM(started_at)
+      ALTER TABLE ${this.database}.runs
+        ADD COLUMN IF NOT EXISTS tenant_id String DEFAULT '${DEFAULT_TENANT_ID}' FIRST
     ` });
-
-    // Create steps table for aggregated step metrics
     await this.client.exec({ query: `
-      CREATE TABLE IF NOT EXISTS ${this.database}.steps (
-        step_id String,
-        run_id String,
-        pipeline_id String,
-        step_type String,
-        step_name String,
-        input_count UInt64,
-        output_count UInt64,
-        elimination_ratio Float64,
-        kept_count UInt64,
-        eliminated_count UInt64,
-        scored_count UInt64,
-        started_at DateTime64(3),
-        completed_at Nullable(DateTime64(3)),
-        updated_at DateTime64(3) DEFAULT now()
-      )
-      ENGINE = ReplacingMergeTree(updated_at)
-      ORDER BY (step_id, run_id)
-      PARTITION BY toYYYYMM(started_at)
+      ALTER TABLE ${this.database}.steps
+        ADD COLUMN IF NOT EXISTS tenant_id String DEFAULT '${DEFAULT_TENANT_ID}' FIRST,
+        ADD COLUMN IF NOT EXISTS parent_step_id Nullable(String) AFTER run_id,
+        ADD COLUMN IF NOT EXISTS depth UInt32 DEFAULT 0 AFTER parent_step_id,
+        ADD COLUMN IF NOT EXISTS modified_count UInt64 DEFAULT 0 AFTER scored_count,
+        ADD COLUMN IF NOT EXISTS added_count UInt64 DEFAULT 0 AFTER modified_count,
+        ADD COLUMN IF NOT EXISTS merged_count UInt64 DEFAULT 0 AFTER added_count,
+        ADD COLUMN IF NOT EXISTS errored_count UInt64 DEFAULT 0 AFTER merged_count,
+        ADD COLUMN IF NOT EXISTS mean_rank_displacement Float64 DEFAULT 0 AFTER errored_count,
+        ADD COLUMN IF NOT EXISTS duration_ms Float64 DEFAULT 0 AFTER mean_rank_displacement,
+        ADD COLUMN IF NOT EXISTS sample_rate Float64 DEFAULT 1 AFTER duration_ms,
+        ADD COLUMN IF NOT EXISTS exact_counts UInt8 DEFAULT 0 AFTER sample_rate
     ` });
-
-    // Create decision_events table for decision-level analytics
-    // Note: This stores decision events but in aggregated form (not full payloads)
     await this.client.exec({ query: `
-      CREATE TABLE IF NOT EXISTS ${this.database}.decision_events (
-        event_id String,
-        step_id String,
-        run_id String,
-        pipeline_id String,
-        outcome String,
-        item_id String,
-        score Nullable(Float64),
-        timestamp DateTime64(3),
-        s3_key String,
-        updated_at DateTime64(3) DEFAULT now()
+      ALTER TABLE ${this.database}.decision_events
+        ADD COLUMN IF NOT EXISTS tenant_id String DEFAULT '${DEFAULT_TENANT_ID}' FIRST
+    ` });
+
+    // Tables created before sorting keys started with tenant_id
+    for (const table of Object.keys(TABLES) as Table[]) {
+      await this.migrateSortingKey(table);
+    }
+  }
+
+  private createTableQuery(table: Table, name: string): string {
+    const { columns, sortingKey, partitionBy } = TABLES[table];
+    return `
+      CREATE TABLE IF NOT EXISTS ${this.database}.${name} (
+        ${columns.map(([column, type]) => `${column} ${type}`).join(',\n        ')}
       )
       ENGINE = ReplacingMergeTree(updated_at)
-      ORDER BY (run_id, step_id, timestamp)
-      PARTITION BY toYYYYMM(timestamp)
-    ` });
+      ORDER BY (${sortingKey.join(', ')})
+      PARTITION BY ${partitionBy}
+    `;
+  }
+
+  /**
+   * Rebuild a table whose sorting key isn't the current one
+   * 
+   * ClickHouse can't change the leading columns of a sorting key in place. The
+   * rows are copied into a new table with the current key and the two are
+   * swapped; rows the old table received during the copy are copied once more
+   * (ReplacingMergeTree collapses the repeats) and the old table is dropped.
+   * 
+   * Trade-off: Runs on worker startup and copies the whole table - start one
+   * worker first when upgrading, so several don't migrate at once.
+   */
+  private async migrateSortingKey(table: Table): Promise<void> {
+    const sortingKey = TABLES[table].sortingKey.join(', ');
+    const result = await this.client.query({
+      query: `SELECT sorting_key FROM system.tables WHERE database = {database:String} AND name = {table:String}`,
+      query_params: { database: this.database, table },
+      format: 'JSONEachRow',
+    });
+    const rows = (await result.json()) as { sorting_key: string }[];
+    if (rows.length === 0 || rows[0].sorting_key === sortingKey) {
+      return;
+    }
+
+    logger.info('Migrating ClickHouse table to a new sorting key', {
+      table,
+      from: rows[0].sorting_key,
+      to: sortingKey,
+    });
+    const migrating = `${table}_migrating`;
+    const legacy = `${table}_legacy`;
+    const columns = TABLES[table].columns.map(([column]) => column).join(', ');
+    const copy = (from: string, to: string) =>
+      this.client.exec({
+        query: `INSERT INTO ${this.database}.${to} (${columns}) SELECT ${columns} FROM ${this.database}.${from}`,
+      });
+
+    // Left over from an interrupted migration
+    await this.client.exec({ query: `DROP TABLE IF EXISTS ${this.database}.${migrating}` });
+    await this.client.exec({ query: this.createTableQuery(table, migrating) });
+    await copy(table, migrating);
+    await this.client.exec({
+      query: `RENAME TABLE ${this.database}.${table} TO ${this.database}.${legacy}, ${this.database}.${migrating} TO ${this.database}.${table}`,
+    });
+    await copy(legacy, table);
+    await this.client.exec({ query: `DROP TABLE ${this.database}.${legacy}` });
+    logger.info('ClickHouse table migrated', { table });
   }
 
   /**
@@ -166,6 +304,7 @@ export class ClickHouseStorage {
       table: `${this.database}.runs`,
       values: [
         {
+          tenant_id: metrics.tenantId,
           run_id: metrics.runId,
           pipeline_id: metrics.pipelineId,
           status: metrics.status,
@@ -196,8 +335,11 @@ export class ClickHouseStorage {
       table: `${this.database}.steps`,
       values: [
         {
+          tenant_id: metrics.tenantId,
           step_id: metrics.stepId,
           run_id: metrics.runId,
+          parent_step_id: metrics.parentStepId,
+          depth: metrics.depth,
           pipeline_id: metrics.pipelineId,
           step_type: metrics.stepType,
           step_name: metrics.stepName,
@@ -207,6 +349,14 @@ export class ClickHouseStorage {
           kept_count: metrics.keptCount,
           eliminated_count: metrics.eliminatedCount,
           scored_count: metrics.scoredCount,
+          modified_count: metrics.modifiedCount,
+          added_count: metrics.addedCount,
+          merged_count: metrics.mergedCount,
+          errored_count: metrics.erroredCount,
+          mean_rank_displacement: metrics.meanRankDisplacement,
+          duration_ms: metrics.durationMs,
+          sample_rate: metrics.sampleRate,
+          exact_counts: metrics.exactCounts ? 1 : 0,
           started_at: (metrics.startedAt instanceof Date ? metrics.startedAt : new Date(metrics.startedAt)).toISOString().replace('T', ' ').replace('Z', ''),
           completed_at: metrics.completedAt
             ? (metrics.completedAt instanceof Date ? metrics.completedAt : new Date(metrics.completedAt)).toISOString().replace('T', ' ').replace('Z', '')
@@ -232,6 +382,7 @@ export class ClickHouseStorage {
       table: `${this.database}.decision_events`,
       values: [
         {
+          tenant_id: event.tenantId ?? DEFAULT_TENANT_ID,
           event_id: event.id,
           step_id: event.stepId,
           run_id: event.runId,
@@ -252,12 +403,19 @@ export class ClickHouseStorage {
    * Calculate step metrics from decision events
    * 
    * Helper function to aggregate decision events into step metrics.
+   * Without a step summary, a sampled event counts for its `sampleWeight`
+   * (the decisions of its outcome it stands for) - events without one count once.
    */
   calculateStepMetrics(
     step: XRStep,
     run: XRRun,
     decisionEvents: XRDecisionEvent[]
   ): StepMetrics {
+    // The SDK's step summary is exact - events below may be sampled
+    if (step.summary) {
+      return this.stepMetricsFromSummary(step, run, step.summary);
+    }
+
     // Try to get input/output counts from step config first (most reliable)
     let inputCount = 0;
     let outputCount = 0;
@@ -274,51 +432,133 @@ export class ClickHouseStorage {
                    (decisionEvents[0].metadata?.input_count as number) || 0;
     }
     
+    // Extrapolate sampled events back to the decisions they stand for
+    const weightOf = (e: XRDecisionEvent) => {
+      const weight = e.metadata?.sampleWeight;
+      return typeof weight === 'number' && Number.isFinite(weight) && weight > 0 ? weight : 1;
+    };
+    const weightedCount = (events: XRDecisionEvent[]) =>
+      Math.round(events.reduce((sum, e) => sum + weightOf(e), 0));
+
     // If still 0, estimate from decision events (but this is not accurate)
     // For accurate metrics, step config should include inputCount
     if (inputCount === 0 && decisionEvents.length > 0) {
-      // Estimate: if we have decision events, input is at least that many
-      // But we don't know the actual input count, so we'll use a conservative estimate
-      inputCount = decisionEvents.length;
+      // Estimate: every decision the events stand for was an input
+      inputCount = weightedCount(decisionEvents);
     }
     
-    // If outputCount not in config, calculate from decision events
-    if (outputCount === 0) {
-
     // Calculate counts from decision events
-    const keptCount = decisionEvents.filter(
-      (e) => e.outcome === XRDecisionOutcome.KEPT
-    ).length;
-    const eliminatedCount = decisionEvents.filter(
-      (e) => e.outcome === XRDecisionOutcome.ELIMINATED
-    ).length;
-    const scoredCount = decisionEvents.filter(
-      (e) => e.outcome === XRDecisionOutcome.SCORED
-    ).length;
+    const countOutcome = (outcome: XRDecisionOutcome) =>
+      weightedCount(decisionEvents.filter((e) => e.outcome === outcome));
+    const keptCount = countOutcome(XRDecisionOutcome.KEPT);
+    const eliminatedCount = countOutcome(XRDecisionOutcome.ELIMINATED);
+    const scoredCount = countOutcome(XRDecisionOutcome.SCORED);
+    const addedCount = countOutcome(XRDecisionOutcome.ADDED);
+    const mergedCount = countOutcome(XRDecisionOutcome.MERGED);
+    const erroredCount = countOutcome(XRDecisionOutcome.ERRORED);
     
+    // Field-level changes and rank movement are recorded in event metadata by the SDK
+    // (scored items can be modified too, so this isn't just the `modified` outcome)
+    const modifiedCount = weightedCount(
+      decisionEvents.filter(
+        (e) => e.outcome === XRDecisionOutcome.MODIFIED || e.metadata?.modified === true
+      )
+    );
+    const displacements = decisionEvents
+      .map((e) => ({
+        displacement: (e.metadata?.rank as { displacement?: number } | undefined)?.displacement,
+        weight: weightOf(e),
+      }))
+      .filter((d): d is { displacement: number; weight: number } => typeof d.displacement === 'number');
+    const displacementWeight = displacements.reduce((sum, d) => sum + d.weight, 0);
+    const meanRankDisplacement =
+      displacementWeight > 0
+        ? displacements.reduce((sum, d) => sum + Math.abs(d.displacement) * d.weight, 0) /
+          displacementWeight
+        : 0;
+
     // If outputCount not in config, calculate from decision events
-    // Output count = kept + scored (items that passed through)
+    // Output count = items that passed through (kept, scored, modified) + items the step created
     if (outputCount === 0) {
-      outputCount = keptCount + scoredCount;
+      outputCount =
+        keptCount + scoredCount + countOutcome(XRDecisionOutcome.MODIFIED) + addedCount;
     }
 
     const eliminationRatio =
       inputCount > 0 ? 1 - outputCount / inputCount : 0;
 
     return {
-      stepId: step.id,
-      runId: run.id,
-      pipelineId: run.pipelineId,
-      stepType: step.type,
-      stepName: step.name,
+      ...this.stepFields(step, run),
       inputCount,
       outputCount,
       eliminationRatio,
       keptCount,
       eliminatedCount,
       scoredCount,
-      startedAt: step.startedAt instanceof Date ? step.startedAt : new Date(step.startedAt),
-      completedAt: step.completedAt ? (step.completedAt instanceof Date ? step.completedAt : new Date(step.completedAt)) : null,
+      modifiedCount,
+      addedCount,
+      mergedCount,
+      erroredCount,
+      meanRankDisplacement,
+      // Estimate - without a summary we only know how many events arrived
+      sampleRate: inputCount > 0 ? Math.min(decisionEvents.length / inputCount, 1) : 1,
+      exactCounts: false,
+    };
+  }
+
+  /**
+   * Step metrics from the SDK's step summary
+   * 
+   * Counts are exact regardless of how many decision events were sampled.
+   * Summaries without outcome counts (metrics_only) report zero per outcome,
+   * like a step without events would.
+   */
+  private stepMetricsFromSummary(
+    step: XRStep,
+    run: XRRun,
+    summary: XRStepSummary
+  ): StepMetrics {
+    const counts = summary.outcomeCounts ?? {};
+    const countOutcome = (outcome: XRDecisionOutcome) => counts[outcome] ?? 0;
+    const { inputCount, outputCount } = summary;
+
+    return {
+      ...this.stepFields(step, run),
+      inputCount,
+      outputCount,
+      eliminationRatio: inputCount > 0 ? 1 - outputCount / inputCount : 0,
+      keptCount: countOutcome(XRDecisionOutcome.KEPT),
+      eliminatedCount: countOutcome(XRDecisionOutcome.ELIMINATED),
+      scoredCount: countOutcome(XRDecisionOutcome.SCORED),
+      modifiedCount: summary.modifiedCount ?? countOutcome(XRDecisionOutcome.MODIFIED),
+      addedCount: countOutcome(XRDecisionOutcome.ADDED),
+      mergedCount: countOutcome(XRDecisionOutcome.MERGED),
+      erroredCount: countOutcome(XRDecisionOutcome.ERRORED),
+      meanRankDisplacement: summary.meanRankDisplacement ?? 0,
+      sampleRate: summary.sampleRate,
+      exactCounts: true,
+    };
+  }
+
+  /**
+   * Identity and timing fields shared by both ways of computing step metrics
+   */
+  private stepFields(step: XRStep, run: XRRun) {
+    const startedAt = step.startedAt instanceof Date ? step.startedAt : new Date(step.startedAt);
+    const completedAt = step.completedAt ? (step.completedAt instanceof Date ? step.completedAt : new Date(step.completedAt)) : null;
+    return {
+      tenantId: run.tenantId ?? DEFAULT_TENANT_ID,
+      stepId: step.id,
+      runId: run.id,
+      parentStepId: step.parentStepId ?? null,
+      depth: step.depth ?? 0,
+      pipelineId: run.pipelineId,
+      stepType: step.type,
+      stepName: step.name,
+      // Business logic time when the SDK reported it, wall clock otherwise
+      durationMs: step.summary?.durationMs ?? (completedAt ? completedAt.getTime() - startedAt.getTime() : 0),
+      startedAt,
+      completedAt,
     };
   }
 
@@ -336,6 +576,7 @@ export class ClickHouseStorage {
       totalInputCount > 0 ? 1 - totalOutputCount / totalInputCount : 0;
 
     return {
+      tenantId: run.tenantId ?? DEFAULT_TENANT_ID,
       runId: run.id,
       pipelineId: run.pipelineId,
       status: run.status,
@@ -17,7 +17,9 @@ dotenv.config({ path: rootEnvPath });
 import { ClickHouseStorage } from './clickhouse';
 import { S3Storage } from './s3';
 import { createQueue } from './queue';
+import { createProcessedStore } from './processed-store';
 import { ProcessorWorker } from './worker';
+import { startAdminServer } from './admin';
 import { logger } from './logger';
 
 async function main() {
@@ -48,29 +50,48 @@ async function main() {
   await s3.initialize();
   logger.info('AWS S3 initialized');
 
-  // Initialize queue
-  const queue = createQueue();
+  // Initialize queue (prefetch a little past what's processed at once, so the
+  // next messages are ready when a slot frees)
+  const concurrency = parseInt(process.env.WORKER_CONCURRENCY || '8', 10);
+  const queue = createQueue({
+    prefetch: parseInt(process.env.RABBITMQ_PREFETCH || String(concurrency * 2), 10),
+  });
   logger.info('Queue initialized', {
     type: process.env.QUEUE_TYPE || 'memory',
   });
 
+  // Processed-message store (skips redeliveries after a crash)
+  const processed = createProcessedStore();
+  await processed.initialize();
+
   // Create and start worker
   const worker = new ProcessorWorker(
     clickhouse,
     s3,
     queue,
+    processed,
     {
       pollIntervalMs: parseInt(process.env.POLL_INTERVAL_MS || '1000', 10),
       batchSize: parseInt(process.env.BATCH_SIZE || '10', 10),
+      maxAttempts: parseInt(process.env.MAX_ATTEMPTS || '5', 10),
+      concurrency,
     }
   );
 
   await worker.start();
 
+  // Dead-letter queue admin routes
+  const admin = startAdminServer(queue, {
+    port: parseInt(process.env.ADMIN_PORT || '3003', 10),
+    token: process.env.XRAY_ADMIN_TOKEN || undefined,
+  });
+
   // Graceful shutdown
   process.on('SIGTERM', async () => {
     logger.info('SIGTERM received, shutting down gracefully');
     await worker.stop();
+    admin.close();
+    await processed.close();
     await clickhouse.close();
     process.exit(0);
   });
@@ -78,6 +99,8 @@ async function main() {
   process.on('SIGINT', async () => {
     logger.info('SIGINT received, shutting down gracefully');
     await worker.stop();
+    admin.close();
+    await processed.close();
     await clickhouse.close();
     process.exit(0);
   });
@@ -0,0 +1,246 @@
+/**
+ * Processed-message store (worker idempotency)
+ *
+ * Queues deliver at least once: a worker that crashes after writing a message
+ * but before acking it gets the message again, and S3 writes, ClickHouse rows
+ * and in-memory counts would be produced twice. The worker records what it
+ * has finished here and skips it on redelivery.
+ *
+ * Keys:
+ * - `event:{tenantId}:{eventId}` - one per decision event, so a batch that
+ *   crashed halfway resumes after the last event it finished
+ * - `message:{sha256}` - one per message, over its type and payload (runs and
+ *   steps are re-sent with the same id as they progress, so the id alone
+ *   would skip their updates)
+ *
+ * Design trade-offs:
+ * - A key is marked after the writes it covers and before the ack. A crash
+ *   between the writes and the mark still repeats them once - exactly-once
+ *   effects hold for everything that was marked.
+ * - Bounded: keys expire after a TTL (redeliveries and retries happen within
+ *   minutes) and the oldest are evicted past a maximum count.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { createInterface } from 'readline';
+import { logger } from './logger';
+
+/**
+ * Key storage
+ *
+ * Redis mapping: `has` is EXISTS key and `mark` is SET key 1 PX ttlMs - a
+ * shared store also covers redeliveries that land on another worker.
+ */
+export interface ProcessedStore {
+  initialize(): Promise<void>;
+  has(key: string): Promise<boolean>;
+  mark(key: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface ProcessedStoreConfig {
+  ttlMs: number; // How long a processed key is remembered
+  maxKeys: number; // Oldest keys are evicted past this
+}
+
+const DEFAULT_CONFIG: ProcessedStoreConfig = {
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxKeys: 1000000, // ~150MB of keys at most
+};
+
+/**
+ * In-process keys, insertion-ordered (the first entry is the oldest)
+ */
+class ExpiringKeys {
+  private config: ProcessedStoreConfig;
+  private entries: Map<string, number> = new Map(); // key -> expiresAt
+
+  constructor(config: ProcessedStoreConfig) {
+    this.config = config;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(key: string): boolean {
+    const expiresAt = this.entries.get(key);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  set(key: string, expiresAt: number): void {
+    // Re-insert so the entry moves to the end (newest)
+    this.entries.delete(key);
+    this.entries.set(key, expiresAt);
+
+    const now = Date.now();
+    for (const [oldestKey, oldestExpiresAt] of this.entries) {
+      if (this.entries.size <= this.config.maxKeys && oldestExpiresAt > now) {
+        break;
+      }
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  entriesList(): [string, number][] {
+    return [...this.entries];
+  }
+}
+
+/**
+ * In-process store - forgets everything on restart (for the in-memory queue)
+ */
+export class MemoryProcessedStore implements ProcessedStore {
+  private config: ProcessedStoreConfig;
+  private keys: ExpiringKeys;
+
+  constructor(config: Partial<ProcessedStoreConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.keys = new ExpiringKeys(this.config);
+  }
+
+  async initialize(): Promise<void> {}
+
+  async has(key: string): Promise<boolean> {
+    return this.keys.has(key);
+  }
+
+  async mark(key: string): Promise<void> {
+    this.keys.set(key, Date.now() + this.config.ttlMs);
+  }
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * File-backed store (default): keys in memory, journaled to an NDJSON file
+ *
+ * Design trade-offs:
+ * - Each mark is appended before `mark` resolves, so it survives a process
+ *   crash (not a power loss - the journal isn't fsynced per key).
+ * - The journal is replayed on startup and compacted (rewritten with only
+ *   live keys) once it holds twice as many lines as live keys.
+ * - Per worker: with several workers, a redelivery to another worker isn't
+ *   caught - plug in a Redis store for that.
+ */
+export class FileProcessedStore implements ProcessedStore {
+  private file: string;
+  private config: ProcessedStoreConfig;
+  private keys: ExpiringKeys;
+  private chain: Promise<void> = Promise.resolve();
+  private journalLines = 0;
+
+  constructor(file: string, config: Partial<ProcessedStoreConfig> = {}) {
+    this.file = file;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.keys = new ExpiringKeys(this.config);
+  }
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+
+    const exists = await fs.stat(this.file).then(() => true, () => false);
+    if (exists) {
+      const lines = createInterface({ input: createReadStream(this.file), crlfDelay: Infinity });
+      const now = Date.now();
+      for await (const line of lines) {
+        if (!line) continue;
+        this.journalLines++;
+        try {
+          const { key, expiresAt } = JSON.parse(line);
+          if (typeof key === 'string' && expiresAt > now) {
+            this.keys.set(key, expiresAt);
+          }
+        } catch {
+          // Torn last line from a crash mid-append
+        }
+      }
+    }
+
+    logger.info('Processed-message store loaded', {
+      file: this.file,
+      keys: this.keys.size,
+    });
+    await this.compactIfNeeded();
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.keys.has(key);
+  }
+
+  async mark(key: string): Promise<void> {
+    const expiresAt = Date.now() + this.config.ttlMs;
+    this.keys.set(key, expiresAt);
+
+    // Serialized through one chain - appends don't interleave with a compaction
+    const append = this.chain.then(async () => {
+      await fs.appendFile(this.file, JSON.stringify({ key, expiresAt }) + '\n');
+      this.journalLines++;
+      await this.compactIfNeeded();
+    });
+    this.chain = append.catch(() => undefined);
+    return append;
+  }
+
+  async close(): Promise<void> {
+    await this.chain;
+  }
+
+  private async compactIfNeeded(): Promise<void> {
+    if (this.journalLines < Math.max(2 * this.keys.size, 10000)) {
+      return;
+    }
+    const now = Date.now();
+    const live = this.keys.entriesList().filter(([, expiresAt]) => expiresAt > now);
+    const tmp = `${this.file}.tmp`;
+    await fs.writeFile(
+      tmp,
+      live.map(([key, expiresAt]) => JSON.stringify({ key, expiresAt }) + '\n').join('')
+    );
+    await fs.rename(tmp, this.file);
+    logger.debug('Processed-message journal compacted', {
+      before: this.journalLines,
+      after: live.length,
+    });
+    this.journalLines = live.length;
+  }
+}
+
+/**
+ * Store config from PROCESSED_TTL_SECONDS and PROCESSED_MAX_KEYS
+ */
+export function processedStoreConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Partial<ProcessedStoreConfig> {
+  const config: Partial<ProcessedStoreConfig> = {};
+  const ttlSeconds = Number(env.PROCESSED_TTL_SECONDS);
+  if (ttlSeconds > 0) {
+    config.ttlMs = ttlSeconds * 1000;
+  }
+  const maxKeys = Number(env.PROCESSED_MAX_KEYS);
+  if (maxKeys > 0) {
+    config.maxKeys = maxKeys;
+  }
+  return config;
+}
+
+/**
+ * File store at PROCESSED_STORE_PATH (default `.xray/processed.ndjson`), or
+ * in memory with PROCESSED_STORE=memory
+ */
+export function createProcessedStore(env: NodeJS.ProcessEnv = process.env): ProcessedStore {
+  const config = processedStoreConfigFromEnv(env);
+  const storeType = env.PROCESSED_STORE || 'file';
+
+  if (storeType === 'memory') {
+    return new MemoryProcessedStore(config);
+  }
+
+  if (storeType === 'file') {
+    const file = env.PROCESSED_STORE_PATH || path.resolve('.xray', 'processed.ndjson');
+    return new FileProcessedStore(file, config);
+  }
+
+  throw new Error(`Unknown processed store: ${storeType}. Supported: file, memory`);
+}
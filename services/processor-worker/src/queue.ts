@@ -5,19 +5,64 @@
  * in-memory queue for MVP, but designed to swap for SQS.
  */
 
-import {
-  XRDecisionEvent,
-  XRRun,
-  XRStep,
-} from '@xray/shared-types';
-
-export interface QueueMessage {
-  type: 'decision' | 'decisions' | 'run' | 'step';
-  data: XRDecisionEvent | XRDecisionEvent[] | XRRun | XRStep;
+import { randomUUID } from 'crypto';
+import type { Channel, ChannelModel, ConsumeMessage, GetMessage, Message } from 'amqplib';
+import { XRDecisionEvent, XRIngestItem } from '@xray/shared-types';
+import { logger } from './logger';
+
+/**
+ * What a message carries: one run, step or decision event, or a batch of
+ * decision events (HTTP queue service)
+ */
+export type QueuePayload = XRIngestItem | { type: 'decisions'; data: XRDecisionEvent[] };
+
+export type QueueMessage = QueuePayload & {
   messageId?: string; // For idempotency tracking
+  attempts?: number; // Failed processing attempts so far (0 / unset on first delivery)
   // RabbitMQ-specific fields for acknowledgment
-  _deliveryTag?: number;
-  _channel?: any;
+  _delivery?: Message; // Acked through the channel it came from
+  _channel?: Channel;
+};
+
+/**
+ * A message that failed processing too often (or couldn't be parsed)
+ */
+export interface DeadLetter {
+  id: string;
+  queue: string; // Queue it came from - replay sends it back there
+  type: QueueMessage['type'];
+  data: unknown; // The payload as queued (raw text if it wasn't valid JSON)
+  reason: string; // Error of the last attempt
+  attempts: number;
+  failedAt: string;
+}
+
+export const DEAD_LETTER_QUEUE = 'xray.dlq';
+
+/**
+ * Dead-letter queue operations (admin routes)
+ * 
+ * Trade-off: Listing and lookups scan the queue - fine for a DLQ, which should
+ * stay small; a growing one is an incident, not a workload.
+ */
+export interface DeadLetterQueue {
+  /**
+   * Oldest first, up to `limit`
+   */
+  listDeadLetters(limit: number): Promise<DeadLetter[]>;
+
+  getDeadLetter(id: string): Promise<DeadLetter | null>;
+
+  /**
+   * Send a dead letter back to its queue with a fresh attempt counter.
+   * Returns false if it doesn't exist.
+   */
+  replayDeadLetter(id: string): Promise<boolean>;
+
+  /**
+   * Delete one dead letter (or all, without an ID). Returns how many.
+   */
+  purgeDeadLetters(id?: string): Promise<number>;
 }
 
 /**
@@ -29,7 +74,7 @@ export interface QueueMessage {
  * - Dead letter queues
  * - Batch operations
  */
-export interface EventQueue {
+export interface EventQueue extends DeadLetterQueue {
   /**
    * Poll for messages (non-blocking, returns empty array if none available)
    * 
@@ -49,9 +94,65 @@ export interface EventQueue {
   acknowledgeMessage(message: QueueMessage): Promise<void>;
 
   /**
-   * Negative acknowledge a message (for RabbitMQ, re-queue)
+   * Put a failed message back for another attempt, with `attempts` as its
+   * new failure count (removes the current delivery)
    */
-  nackMessage(message: QueueMessage): Promise<void>;
+  retryMessage(message: QueueMessage, attempts: number): Promise<void>;
+
+  /**
+   * Move a message to the dead-letter queue (removes the current delivery)
+   */
+  deadLetterMessage(message: QueueMessage, reason: string, attempts: number): Promise<void>;
+}
+
+/**
+ * Queue a message type is consumed from (where replays go)
+ */
+function queueOf(type: QueueMessage['type']): string {
+  return type === 'run' ? 'xray.runs' : type === 'step' ? 'xray.steps' : 'xray.decisions';
+}
+
+/**
+ * In-process dead letters, for queues without a broker-side DLQ
+ */
+class MemoryDeadLetters {
+  private letters: Map<string, DeadLetter> = new Map(); // Insertion-ordered: oldest first
+
+  add(message: QueueMessage, reason: string, attempts: number): void {
+    const id = randomUUID();
+    this.letters.set(id, {
+      id,
+      queue: queueOf(message.type),
+      type: message.type,
+      data: message.data,
+      reason,
+      attempts,
+      failedAt: new Date().toISOString(),
+    });
+  }
+
+  list(limit: number): DeadLetter[] {
+    return [...this.letters.values()].slice(0, limit);
+  }
+
+  get(id: string): DeadLetter | null {
+    return this.letters.get(id) ?? null;
+  }
+
+  take(id: string): DeadLetter | null {
+    const letter = this.get(id);
+    this.letters.delete(id);
+    return letter;
+  }
+
+  purge(id?: string): number {
+    if (id) {
+      return this.letters.delete(id) ? 1 : 0;
+    }
+    const count = this.letters.size;
+    this.letters.clear();
+    return count;
+  }
 }
 
 /**
@@ -65,6 +166,7 @@ export interface EventQueue {
 export class InMemoryQueue implements EventQueue {
   private messages: QueueMessage[] = [];
   private processedIds: Set<string> = new Set();
+  private deadLetters = new MemoryDeadLetters();
 
   constructor() {
     // For MVP, we'll simulate queue by accepting messages via add()
@@ -93,8 +195,34 @@ export class InMemoryQueue implements EventQueue {
     // In-memory queue doesn't need acknowledgment
   }
 
-  async nackMessage(message: QueueMessage): Promise<void> {
-    // In-memory queue doesn't need nack
+  async retryMessage(message: QueueMessage, attempts: number): Promise<void> {
+    // Back of the queue, so one failing message doesn't block the rest
+    this.messages.push({ ...message, attempts });
+  }
+
+  async deadLetterMessage(message: QueueMessage, reason: string, attempts: number): Promise<void> {
+    this.deadLetters.add(message, reason, attempts);
+  }
+
+  async listDeadLetters(limit: number): Promise<DeadLetter[]> {
+    return this.deadLetters.list(limit);
+  }
+
+  async getDeadLetter(id: string): Promise<DeadLetter | null> {
+    return this.deadLetters.get(id);
+  }
+
+  async replayDeadLetter(id: string): Promise<boolean> {
+    const letter = this.deadLetters.take(id);
+    if (!letter) {
+      return false;
+    }
+    this.add({ type: letter.type, data: letter.data } as QueuePayload);
+    return true;
+  }
+
+  async purgeDeadLetters(id?: string): Promise<number> {
+    return this.deadLetters.purge(id);
   }
 
   /**
@@ -105,19 +233,63 @@ export class InMemoryQueue implements EventQueue {
   }
 }
 
+/**
+ * Most dead letters read per admin scan (list / inspect / replay / purge one)
+ */
+const DEAD_LETTER_SCAN_LIMIT = 10000;
+
+const MAX_REASON_LENGTH = 1000;
+
+/**
+ * Message type of a queue (inverse of queueOf)
+ */
+function typeOf(queue: string): QueueMessage['type'] {
+  return queue === 'xray.runs' ? 'run' : queue === 'xray.steps' ? 'step' : 'decision';
+}
+
 /**
  * RabbitMQ queue implementation (production-ready message broker)
+ * 
+ * Design trade-offs:
+ * - Failed messages aren't nacked back - that redelivers the same message at
+ *   the head of the queue forever. They're republished to the back of their
+ *   queue with an `x-attempts` header and the original is acked; past the
+ *   worker's max attempts they go to `xray.dlq` instead, with the failure in
+ *   headers. Payloads that aren't JSON go to the DLQ right away.
+ * - Republish-then-ack isn't atomic: a crash in between redelivers the
+ *   original as well, so a message can get one extra attempt.
+ * - Admin operations use their own channel, serialized, and put back every
+ *   dead letter they looked at but didn't remove.
+ * - Messages are pushed by consumers into a local buffer that `poll` drains.
+ *   The channel's prefetch caps unacked messages (buffered plus in flight) -
+ *   set it above the worker's concurrency so the next messages are already
+ *   here when a slot frees, but not so far above that one worker hoards
+ *   messages other workers could take. `channel.get` would ignore prefetch
+ *   and cost a round trip per message.
  */
 export class RabbitMQQueue implements EventQueue {
-  private connection: any = null;
-  private channel: any = null;
+  private connection: ChannelModel | null = null;
+  private channel: Channel | null = null;
+  private adminChannel: Channel | null = null;
+  private adminChain: Promise<unknown> = Promise.resolve();
   private decisionQueue = 'xray.decisions';
   private runsQueue = 'xray.runs';
   private stepsQueue = 'xray.steps';
   private isConnecting = false;
-
-  constructor(amqpUrl?: string) {
+  private prefetch: number;
+
+  // Poll priority: decisions > steps > runs
+  private queues = [
+    { name: this.decisionQueue, type: 'decision' as const },
+    { name: this.stepsQueue, type: 'step' as const },
+    { name: this.runsQueue, type: 'run' as const },
+  ];
+  // Delivered but not yet polled, per queue
+  private buffered: Map<string, QueueMessage[]> = new Map();
+
+  constructor(amqpUrl?: string, prefetch: number = 20) {
     const url = amqpUrl || process.env.AMQP_URL || 'amqp://localhost:5672';
+    this.prefetch = prefetch;
     this.connect(url);
   }
 
@@ -126,33 +298,51 @@ export class RabbitMQQueue implements EventQueue {
     this.isConnecting = true;
 
     try {
-      const amqp = require('amqplib');
-      this.connection = await amqp.connect(url);
-      this.channel = await this.connection.createChannel();
+      const amqp = await import('amqplib');
+      const connection = await amqp.connect(url);
+      this.connection = connection;
+      const channel = await connection.createChannel();
+      this.channel = channel;
 
       // Declare durable queues
-      await this.channel.assertQueue(this.decisionQueue, { durable: true });
-      await this.channel.assertQueue(this.runsQueue, { durable: true });
-      await this.channel.assertQueue(this.stepsQueue, { durable: true });
+      await channel.assertQueue(this.decisionQueue, { durable: true });
+      await channel.assertQueue(this.runsQueue, { durable: true });
+      await channel.assertQueue(this.stepsQueue, { durable: true });
+      await channel.assertQueue(DEAD_LETTER_QUEUE, { durable: true });
 
-      // Set prefetch (how many unacked messages per consumer)
-      await this.channel.prefetch(10);
+      // Set prefetch (how many unacked messages across this channel's consumers)
+      await channel.prefetch(this.prefetch, true);
 
-      this.connection.on('error', (err: Error) => {
-        console.error('RabbitMQ connection error', err);
+      this.adminChannel = await connection.createChannel();
+
+      for (const queue of this.queues) {
+        this.buffered.set(queue.name, []);
+        await channel.consume(queue.name, (msg) => this.receive(queue, channel, msg), {
+          noAck: false,
+        });
+      }
+
+      connection.on('error', (err: Error) => {
+        logger.error('RabbitMQ connection error', { error: err.message });
         this.connection = null;
         this.channel = null;
+        this.adminChannel = null;
+        this.buffered.clear(); // The broker redelivers them
         this.isConnecting = false;
       });
 
-      this.connection.on('close', () => {
-        console.warn('RabbitMQ connection closed, will reconnect');
+      connection.on('close', () => {
+        logger.warn('RabbitMQ connection closed, will reconnect');
         this.connection = null;
         this.channel = null;
+        this.adminChannel = null;
+        this.buffered.clear(); // The broker redelivers them
         this.isConnecting = false;
       });
     } catch (error) {
-      console.error('Failed to connect to RabbitMQ', error);
+      logger.error('Failed to connect to RabbitMQ', {
+        error: error instanceof Error ? error.message : String(error),
+      });
       this.isConnecting = false;
     }
   }
@@ -170,29 +360,10 @@ export class RabbitMQQueue implements EventQueue {
       if (!(await this.ensureConnected())) return [];
 
       const messages: QueueMessage[] = [];
-      const queues = [
-        { name: this.decisionQueue, type: 'decision' as const },
-        { name: this.stepsQueue, type: 'step' as const },
-        { name: this.runsQueue, type: 'run' as const },
-      ];
-
-      // Poll from all queues (priority: decisions > steps > runs)
-      for (const queue of queues) {
+      for (const queue of this.queues) {
         if (messages.length >= maxMessages) break;
-
-        // Get message (non-blocking, noAck: false means we need to ack manually)
-        const msg = await this.channel.get(queue.name, { noAck: false });
-        
-        if (msg && msg.fields && msg.fields.deliveryTag !== undefined) {
-          const data = JSON.parse(msg.content.toString());
-          messages.push({
-            type: queue.type,
-            data: data,
-            messageId: msg.properties?.messageId || `${queue.type}-${data.id || Date.now()}`,
-            _deliveryTag: msg.fields.deliveryTag,
-            _channel: this.channel,
-          });
-        }
+        const buffer = this.buffered.get(queue.name) ?? [];
+        messages.push(...buffer.splice(0, maxMessages - messages.length));
       }
 
       return messages;
@@ -201,36 +372,227 @@ export class RabbitMQQueue implements EventQueue {
     }
   }
 
+  /**
+   * Consumer callback: buffer a delivery for `poll`
+   */
+  private receive(
+    queue: { name: string; type: XRIngestItem['type'] },
+    channel: Channel,
+    msg: ConsumeMessage | null
+  ): void {
+    if (!msg || !msg.fields || msg.fields.deliveryTag === undefined) {
+      return; // Consumer cancelled by the broker (queue deleted)
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(msg.content.toString());
+    } catch {
+      // Would fail the same way on every attempt
+      logger.warn('Dead-lettering malformed message', { queue: queue.name });
+      this.publishDeadLetter(channel, queue.name, msg.content, 'Malformed JSON', 0);
+      channel.ack(msg);
+      return;
+    }
+
+    // The queue decides the type; the worker validates the payload when it
+    // processes it
+    const payload = { type: queue.type, data } as QueuePayload;
+    const id = (data as { id?: unknown } | null)?.id;
+    this.buffered.get(queue.name)?.push({
+      ...payload,
+      messageId: msg.properties?.messageId || `${queue.type}-${id || Date.now()}`,
+      attempts: Number(msg.properties?.headers?.['x-attempts']) || 0,
+      _delivery: msg,
+      _channel: channel,
+    });
+  }
+
   async deleteMessage(messageId: string): Promise<void> {
     // For RabbitMQ, acknowledgment is handled via acknowledgeMessage
   }
 
   async acknowledgeMessage(message: QueueMessage): Promise<void> {
     try {
-      if (message._deliveryTag !== undefined && this.channel) {
-        this.channel.ack(message._deliveryTag);
+      // A delivery is only valid on the channel it came from
+      if (message._delivery && this.channel && message._channel === this.channel) {
+        this.channel.ack(message._delivery);
       }
     } catch (error) {
       // Silent failure - message might already be acked
     }
   }
 
-  async nackMessage(message: QueueMessage): Promise<void> {
-    try {
-      if (message._deliveryTag !== undefined && this.channel) {
-        this.channel.nack(message._deliveryTag, false, true);
+  async retryMessage(message: QueueMessage, attempts: number): Promise<void> {
+    if (!message._delivery || !this.channel || message._channel !== this.channel) {
+      return; // Its channel is gone - the broker redelivers it unchanged
+    }
+    this.channel.sendToQueue(queueOf(message.type), Buffer.from(JSON.stringify(message.data)), {
+      persistent: true,
+      messageId: message.messageId,
+      headers: { 'x-attempts': attempts },
+    });
+    this.channel.ack(message._delivery);
+  }
+
+  async deadLetterMessage(message: QueueMessage, reason: string, attempts: number): Promise<void> {
+    if (!message._delivery || !this.channel || message._channel !== this.channel) {
+      return;
+    }
+    this.publishDeadLetter(
+      this.channel,
+      queueOf(message.type),
+      Buffer.from(JSON.stringify(message.data)),
+      reason,
+      attempts
+    );
+    this.channel.ack(message._delivery);
+  }
+
+  async listDeadLetters(limit: number): Promise<DeadLetter[]> {
+    return this.scanDeadLetters(Math.min(limit, DEAD_LETTER_SCAN_LIMIT), (entries) =>
+      entries.map((entry) => entry.letter)
+    );
+  }
+
+  async getDeadLetter(id: string): Promise<DeadLetter | null> {
+    return this.scanDeadLetters(DEAD_LETTER_SCAN_LIMIT, (entries) =>
+      entries.find((entry) => entry.letter.id === id)?.letter ?? null
+    );
+  }
+
+  async replayDeadLetter(id: string): Promise<boolean> {
+    return this.scanDeadLetters(DEAD_LETTER_SCAN_LIMIT, (entries, remove, channel) => {
+      const entry = entries.find((e) => e.letter.id === id);
+      if (!entry) {
+        return false;
       }
-    } catch (error) {
-      // Silent failure
+      // Fresh attempt counter - the replay is a new chance after a fix
+      channel.sendToQueue(entry.letter.queue, entry.msg.content, { persistent: true });
+      remove(entry.msg);
+      return true;
+    });
+  }
+
+  async purgeDeadLetters(id?: string): Promise<number> {
+    if (!id) {
+      return this.scanDeadLetters(0, async (_entries, _remove, channel) => {
+        const { messageCount } = await channel.purgeQueue(DEAD_LETTER_QUEUE);
+        return messageCount;
+      });
     }
+    return this.scanDeadLetters(DEAD_LETTER_SCAN_LIMIT, (entries, remove) => {
+      const entry = entries.find((e) => e.letter.id === id);
+      if (entry) {
+        remove(entry.msg);
+      }
+      return entry ? 1 : 0;
+    });
+  }
+
+  /**
+   * Publish a payload to the DLQ, with why and where it came from in headers
+   */
+  private publishDeadLetter(
+    channel: Channel,
+    queue: string,
+    content: Buffer,
+    reason: string,
+    attempts: number
+  ): void {
+    channel.sendToQueue(DEAD_LETTER_QUEUE, content, {
+      persistent: true,
+      messageId: randomUUID(),
+      headers: {
+        'x-original-queue': queue,
+        'x-failure-reason': reason.slice(0, MAX_REASON_LENGTH),
+        'x-attempts': attempts,
+        'x-failed-at': new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Take up to `limit` dead letters off the DLQ, let `handle` remove some, and
+   * put the rest back
+   */
+  private scanDeadLetters<T>(
+    limit: number,
+    handle: (
+      entries: { letter: DeadLetter; msg: GetMessage }[],
+      remove: (msg: GetMessage) => void,
+      channel: Channel
+    ) => T | Promise<T>
+  ): Promise<T> {
+    const scan = async (): Promise<T> => {
+      if (!(await this.ensureConnected()) || !this.adminChannel) {
+        throw new Error('RabbitMQ unavailable');
+      }
+      const channel = this.adminChannel;
+      const fetched: GetMessage[] = [];
+      const removed = new Set<GetMessage>();
+      try {
+        while (fetched.length < limit) {
+          const msg = await channel.get(DEAD_LETTER_QUEUE, { noAck: false });
+          if (!msg) break;
+          fetched.push(msg);
+        }
+        return await handle(
+          fetched.map((msg) => ({ letter: toDeadLetter(msg), msg })),
+          (msg) => {
+            channel.ack(msg);
+            removed.add(msg);
+          },
+          channel
+        );
+      } finally {
+        for (const msg of fetched) {
+          if (!removed.has(msg)) {
+            channel.nack(msg, false, true);
+          }
+        }
+      }
+    };
+
+    const result = this.adminChain.then(scan, scan);
+    this.adminChain = result.catch(() => undefined);
+    return result;
   }
 }
 
+/**
+ * Read a DLQ message (payload plus failure headers)
+ */
+function toDeadLetter(msg: Message): DeadLetter {
+  const headers = msg.properties?.headers ?? {};
+  const text = msg.content.toString();
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    data = text;
+  }
+  const queue = String(headers['x-original-queue'] ?? '');
+  return {
+    id: msg.properties?.messageId ?? `delivery-${msg.fields.deliveryTag}`,
+    queue,
+    type: typeOf(queue),
+    data,
+    reason: String(headers['x-failure-reason'] ?? ''),
+    attempts: Number(headers['x-attempts']) || 0,
+    failedAt: String(headers['x-failed-at'] ?? ''),
+  };
+}
+
 /**
  * HTTP queue implementation (for local development with queue-service)
+ * 
+ * Trade-off: Retries are re-pushed with an `attempts` field; dead letters are
+ * kept in this process (lost on restart) - fine for local development.
  */
 export class HttpQueue implements EventQueue {
   private baseUrl: string;
+  private deadLetters = new MemoryDeadLetters();
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl;
@@ -274,15 +636,61 @@ export class HttpQueue implements EventQueue {
     }
   }
 
-  async nackMessage(message: QueueMessage): Promise<void> {
-    // HTTP queue doesn't support nack
+  async retryMessage(message: QueueMessage, attempts: number): Promise<void> {
+    try {
+      const response = await fetch(`${this.baseUrl}/push`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: message.type, data: message.data, attempts }),
+      });
+      if (!response.ok) {
+        return; // Keep the original - it comes back after the queue's visibility timeout
+      }
+    } catch (error) {
+      return;
+    }
+    await this.acknowledgeMessage(message);
+  }
+
+  async deadLetterMessage(message: QueueMessage, reason: string, attempts: number): Promise<void> {
+    this.deadLetters.add(message, reason, attempts);
+    await this.acknowledgeMessage(message);
+  }
+
+  async listDeadLetters(limit: number): Promise<DeadLetter[]> {
+    return this.deadLetters.list(limit);
+  }
+
+  async getDeadLetter(id: string): Promise<DeadLetter | null> {
+    return this.deadLetters.get(id);
+  }
+
+  async replayDeadLetter(id: string): Promise<boolean> {
+    const letter = this.deadLetters.get(id);
+    if (!letter) {
+      return false;
+    }
+    const response = await fetch(`${this.baseUrl}/push`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: letter.type, data: letter.data }),
+    });
+    if (!response.ok) {
+      throw new Error(`Queue service returned ${response.status}`);
+    }
+    this.deadLetters.take(id);
+    return true;
+  }
+
+  async purgeDeadLetters(id?: string): Promise<number> {
+    return this.deadLetters.purge(id);
   }
 }
 
 /**
  * Factory function to create queue instance
  */
-export function createQueue(): EventQueue {
+export function createQueue(options: { prefetch?: number } = {}): EventQueue {
   const queueType = process.env.QUEUE_TYPE || 'memory';
 
   if (queueType === 'memory') {
@@ -290,7 +698,7 @@ export function createQueue(): EventQueue {
   }
 
   if (queueType === 'rabbitmq') {
-    return new RabbitMQQueue();
+    return new RabbitMQQueue(undefined, options.prefetch);
   }
 
   if (queueType === 'http') {
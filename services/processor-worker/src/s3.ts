@@ -5,7 +5,7 @@
  */
 
 import { S3Client, PutObjectCommand, HeadObjectCommand, CreateBucketCommand, HeadBucketCommand } from '@aws-sdk/client-s3';
-import { XRDecisionEvent, XRRun, XRStep } from '@xray/shared-types';
+import { DEFAULT_TENANT_ID, XRDecisionEvent, XRRun, XRStep } from '@xray/shared-types';
 
 export interface S3Config {
   region: string;
@@ -16,7 +16,18 @@ export interface S3Config {
 }
 
 /**
- * AWS S3 storage for raw payloads. Key format: {type}/{year}/{month}/{day}/{id}.json
+ * Key prefix for a tenant's objects: tenants/{tenantId}/
+ * 
+ * Trade-off: The default tenant keeps the original un-prefixed layout, so
+ * objects stored before tenants existed stay where query-api looks for them.
+ */
+export function tenantPrefix(tenantId: string | undefined): string {
+  return !tenantId || tenantId === DEFAULT_TENANT_ID ? '' : `tenants/${tenantId}/`;
+}
+
+/**
+ * AWS S3 storage for raw payloads. Key format: [tenants/{tenantId}/]{type}/{year}/{month}/{day}/{id}.json
+ * (steps are nested under their run: steps/{year}/{month}/{day}/{runId}/{id}.json)
  */
 export class S3Storage {
   private client: S3Client;
@@ -67,7 +78,7 @@ export class S3Storage {
   /**
    * Generate deterministic S3 key for a decision event
    * 
-   * Format: decisions/{year}/{month}/{day}/{eventId}.json
+   * Format: [tenants/{tenantId}/]decisions/{year}/{month}/{day}/{eventId}.json
    * 
    * Trade-off: Date-based partitioning enables efficient queries by date range.
    * Event ID ensures uniqueness and idempotency.
@@ -78,7 +89,7 @@ export class S3Storage {
     const year = date.getFullYear();
     const month = String(date.getMonth() + 1).padStart(2, '0');
     const day = String(date.getDate()).padStart(2, '0');
-    return `decisions/${year}/${month}/${day}/${event.id}.json`;
+    return `${tenantPrefix(event.tenantId)}decisions/${year}/${month}/${day}/${event.id}.json`;
   }
 
   /**
@@ -90,19 +101,21 @@ export class S3Storage {
     const year = date.getFullYear();
     const month = String(date.getMonth() + 1).padStart(2, '0');
     const day = String(date.getDate()).padStart(2, '0');
-    return `runs/${year}/${month}/${day}/${run.id}.json`;
+    return `${tenantPrefix(run.tenantId)}runs/${year}/${month}/${day}/${run.id}.json`;
   }
 
   /**
    * Generate deterministic S3 key for a step
+   * 
+   * Format: [tenants/{tenantId}/]steps/{year}/{month}/{day}/{runId}/{stepId}.json
    */
-  private getStepKey(step: XRStep, runId: string): string {
+  private getStepKey(step: XRStep): string {
     // Handle both Date objects and ISO strings (from JSON deserialization)
     const date = step.startedAt instanceof Date ? step.startedAt : new Date(step.startedAt);
     const year = date.getFullYear();
     const month = String(date.getMonth() + 1).padStart(2, '0');
     const day = String(date.getDate()).padStart(2, '0');
-    return `steps/${year}/${month}/${day}/${step.id}.json`;
+    return `${tenantPrefix(step.tenantId)}steps/${year}/${month}/${day}/${step.runId}/${step.id}.json`;
   }
 
   /**
@@ -134,6 +147,7 @@ export class S3Storage {
         Body: buffer,
         ContentType: 'application/json',
         Metadata: {
+          'tenant-id': event.tenantId ?? DEFAULT_TENANT_ID,
           'event-id': event.id,
           'run-id': event.runId,
           'step-id': event.stepId,
@@ -167,6 +181,7 @@ export class S3Storage {
         Body: buffer,
         ContentType: 'application/json',
         Metadata: {
+          'tenant-id': run.tenantId ?? DEFAULT_TENANT_ID,
           'run-id': run.id,
           'pipeline-id': run.pipelineId,
         },
@@ -179,9 +194,9 @@ export class S3Storage {
   /**
    * Store step payload
    */
-  async storeStep(step: XRStep, runId: string): Promise<string> {
-    const key = this.getStepKey(step, runId);
-    const payload = JSON.stringify({ ...step, runId });
+  async storeStep(step: XRStep): Promise<string> {
+    const key = this.getStepKey(step);
+    const payload = JSON.stringify(step);
     const buffer = Buffer.from(payload, 'utf-8');
 
     try {
@@ -199,8 +214,9 @@ export class S3Storage {
         Body: buffer,
         ContentType: 'application/json',
         Metadata: {
+          'tenant-id': step.tenantId ?? DEFAULT_TENANT_ID,
           'step-id': step.id,
-          'run-id': runId,
+          'run-id': step.runId,
         },
       })
     );
@@ -211,13 +227,17 @@ export class S3Storage {
   /**
    * Check if a decision event already exists (idempotency check)
    */
-  async decisionEventExists(eventId: string, timestamp: Date | string): Promise<boolean> {
+  async decisionEventExists(
+    eventId: string,
+    timestamp: Date | string,
+    tenantId?: string
+  ): Promise<boolean> {
     // Handle both Date objects and ISO strings
     const date = timestamp instanceof Date ? timestamp : new Date(timestamp);
     const year = date.getFullYear();
     const month = String(date.getMonth() + 1).padStart(2, '0');
     const day = String(date.getDate()).padStart(2, '0');
-    const key = `decisions/${year}/${month}/${day}/${eventId}.json`;
+    const key = `${tenantPrefix(tenantId)}decisions/${year}/${month}/${day}/${eventId}.json`;
 
     try {
       await this.client.send(new HeadObjectCommand({ Bucket: this.bucketName, Key: key }));
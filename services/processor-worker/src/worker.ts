@@ -8,7 +8,9 @@
  * - Idempotent processing (safe retries)
  */
 
+import { createHash } from 'crypto';
 import {
+  DEFAULT_TENANT_ID,
   XRDecisionEvent,
   XRRun,
   XRStep,
@@ -16,49 +18,94 @@ import {
 import { EventQueue, QueueMessage } from './queue';
 import { ClickHouseStorage } from './clickhouse';
 import { S3Storage } from './s3';
+import { ProcessedStore } from './processed-store';
 import { logger } from './logger';
 
+/**
+ * Key of a run, step or event in the aggregation state: its tenant and ID
+ * (unset = default tenant)
+ * 
+ * IDs are client-generated, so two tenants can use the same one. Keyed by
+ * tenant, a step or event naming another tenant's run never finds it - it
+ * can't be aggregated into it or overwrite it.
+ */
+function tenantKey(record: { tenantId?: string }, id: string): string {
+  return `${record.tenantId ?? DEFAULT_TENANT_ID}:${id}`;
+}
+
 export interface WorkerConfig {
   pollIntervalMs: number;
   batchSize: number;
+  maxAttempts: number; // Failed attempts before a message goes to the DLQ
+  concurrency: number; // Messages processed at once
 }
 
 const DEFAULT_CONFIG: WorkerConfig = {
-  pollIntervalMs: 1000, // Poll every second
-  batchSize: 10, // Process up to 10 messages per poll
+  pollIntervalMs: 1000, // Poll every second when the queue is empty
+  batchSize: 10, // Take up to 10 messages per poll
+  maxAttempts: 5,
+  concurrency: 8,
 };
 
+// Messages held (polled, not finished) per processing slot - keeps other
+// runs' messages at hand while one run's lane is busy
+const HELD_PER_SLOT = 2;
+
+// How long completed steps wait for their run before their metrics are dropped
+const DEFERRED_STEP_TIMEOUT_MS = 5 * 60 * 1000;
+
 /**
  * Processor worker
  * 
- * Design: Single-threaded worker that polls and processes events.
+ * Design: Messages are processed concurrently (up to `concurrency` at once),
+ * partitioned by run (within its tenant): messages of one run go through one
+ * lane, in the order they were polled, so a run's cached state is only touched
+ * by one message at a time. A decisions batch spanning several runs is split,
+ * one part per run's lane, and acked once every part is through. Different
+ * runs proceed in parallel, and a slow run only holds up its own lane. Up to twice `concurrency` messages are held; the worker polls
+ * again as soon as one finishes, and only waits `pollIntervalMs` when the
+ * queue is empty.
+ * 
+ * A completed step whose run hasn't arrived yet is deferred, not waited for:
+ * its metrics are stored when the run is processed (or dropped with a
+ * warning after 5 minutes).
+ * 
  * For production, consider:
- * - Multiple worker instances for parallelism
- * - Worker pools
- * - Graceful shutdown with in-flight message handling
+ * - Multiple worker instances for parallelism (aggregation state is per worker)
  */
 export class ProcessorWorker {
   private queue: EventQueue;
   private clickhouse: ClickHouseStorage;
   private s3: S3Storage;
+  private processed: ProcessedStore;
   private config: WorkerConfig;
   private isRunning = false;
   private pollTimer: NodeJS.Timeout | null = null;
+  private inFlight = 0; // Polled and not finished
+  private active = 0; // Being processed
+  private slotWaiters: (() => void)[] = [];
+  private runLanes: Map<string, Promise<void>> = new Map(); // run key -> last message part queued in its lane
+  private pending: Set<Promise<void>> = new Set(); // Messages polled and not settled
+  private capacityFreed: (() => void) | null = null;
 
   // In-memory state for aggregation (in production, use Redis or similar)
+  // (keys are tenantKey()s - tenant:id)
   private runCache: Map<string, XRRun> = new Map();
   private stepCache: Map<string, XRStep> = new Map();
-  private stepDecisionEvents: Map<string, XRDecisionEvent[]> = new Map();
+  private stepDecisionEvents: Map<string, Map<string, XRDecisionEvent>> = new Map(); // step key -> eventId -> event
+  private deferredSteps: Map<string, { stepKeys: Set<string>; since: number }> = new Map(); // run key -> completed steps waiting for it
 
   constructor(
     clickhouse: ClickHouseStorage,
     s3: S3Storage,
     queue: EventQueue,
+    processed: ProcessedStore,
     config: Partial<WorkerConfig> = {}
   ) {
     this.clickhouse = clickhouse;
     this.s3 = s3;
     this.queue = queue;
+    this.processed = processed;
     this.config = { ...DEFAULT_CONFIG, ...config };
   }
 
@@ -75,6 +122,8 @@ export class ProcessorWorker {
     logger.info('Processor worker started', {
       pollInterval: this.config.pollIntervalMs,
       batchSize: this.config.batchSize,
+      maxAttempts: this.config.maxAttempts,
+      concurrency: this.config.concurrency,
     });
 
     // Start polling loop
@@ -82,7 +131,7 @@ export class ProcessorWorker {
   }
 
   /**
-   * Stop the worker
+   * Stop the worker (after the messages in flight finish)
    */
   async stop(): Promise<void> {
     this.isRunning = false;
@@ -90,6 +139,7 @@ export class ProcessorWorker {
       clearTimeout(this.pollTimer);
       this.pollTimer = null;
     }
+    await Promise.all(this.pending);
     logger.info('Processor worker stopped');
   }
 
@@ -106,69 +156,204 @@ export class ProcessorWorker {
         logger.error('Error in poll loop', {
           error: error instanceof Error ? error.message : String(error),
         });
+        return 0;
       })
-      .finally(() => {
-        // Schedule next poll
+      .then((polled) => {
+        if (!this.isRunning) {
+          return;
+        }
+        // Straight back for more while messages keep coming
         this.pollTimer = setTimeout(() => {
           this.pollLoop();
-        }, this.config.pollIntervalMs);
+        }, polled > 0 ? 0 : this.config.pollIntervalMs);
       });
   }
 
   /**
-   * Process a batch of messages
+   * Poll a batch of messages and hand them to their run's lane
+   * 
+   * Returns how many were polled. With the worker holding all it may, waits
+   * for a message to finish instead of polling.
    */
-  private async processBatch(): Promise<void> {
-    const messages = await this.queue.poll(this.config.batchSize);
+  private async processBatch(): Promise<number> {
+    this.expireDeferredSteps();
+
+    const capacity = this.config.concurrency * HELD_PER_SLOT - this.inFlight;
+    if (capacity <= 0) {
+      await new Promise<void>((resolve) => {
+        this.capacityFreed = resolve;
+      });
+      return 1;
+    }
+
+    const messages = await this.queue.poll(Math.min(this.config.batchSize, capacity));
 
     if (messages.length === 0) {
-      return; // No messages to process
+      return 0; // No messages to process
     }
 
-    logger.debug('Processing batch', { count: messages.length });
+    logger.debug('Processing batch', { count: messages.length, inFlight: this.inFlight });
 
-    // Process each message
     for (const message of messages) {
+      this.dispatch(message);
+    }
+    return messages.length;
+  }
+
+  /**
+   * Queue a message behind the earlier messages of its run (each part of a
+   * batch spanning runs behind its own run's), then settle it
+   */
+  private dispatch(message: QueueMessage): void {
+    this.inFlight++;
+    // Keyed before processing, which normalizes the payload in place
+    const key = messageKey(message);
+    const parts = splitByRun(message);
+
+    const current = Promise.allSettled(
+      parts.map((part) => this.inLane(partitionOf(part), () => this.handlePart(part, key)))
+    )
+      .then((outcomes) => this.settleMessage(message, key, outcomes))
+      .finally(() => {
+        this.pending.delete(current);
+        this.inFlight--;
+        const capacityFreed = this.capacityFreed;
+        this.capacityFreed = null;
+        capacityFreed?.();
+      });
+    this.pending.add(current);
+  }
+
+  /**
+   * Run a task in a lane once the lane's earlier tasks are done and a
+   * processing slot is free
+   */
+  private inLane<T>(lane: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.runLanes.get(lane) ?? Promise.resolve();
+    const result = previous
+      .then(() => this.acquireSlot())
+      .then(() => task().finally(() => this.releaseSlot()));
+
+    // The lane only orders - a failed part doesn't hold up the next one
+    const done = result.then(
+      () => undefined,
+      () => undefined
+    );
+    this.runLanes.set(lane, done);
+    done.then(() => {
+      if (this.runLanes.get(lane) === done) {
+        this.runLanes.delete(lane);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Wait for one of the `concurrency` processing slots
+   */
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.config.concurrency) {
+      this.active++;
+      return;
+    }
+    // Handed over directly by releaseSlot
+    await new Promise<void>((resolve) => this.slotWaiters.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.slotWaiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  /**
+   * Process one part of a message - or, when the message was processed
+   * before, only rebuild the aggregation state it left behind
+   * 
+   * Returns whether it was processed.
+   */
+  private async handlePart(part: QueueMessage, key: string): Promise<boolean> {
+    // Idempotency check (redelivery after a crash or a lost ack)
+    if (await this.isProcessed(key)) {
+      logger.debug('Message already processed, skipping', {
+        messageId: part.messageId,
+      });
+      // Its writes are done, but after a restart this worker's aggregation
+      // state has never seen it
+      await this.rehydrateMessage(part);
+      return false;
+    }
+
+    await this.processMessage(part);
+    return true;
+  }
+
+  /**
+   * Ack a message whose parts all went through, or retry or dead-letter it
+   * (never throws)
+   * 
+   * A retried batch is processed whole again - events its other parts wrote
+   * are skipped by their own keys.
+   */
+  private async settleMessage(
+    message: QueueMessage,
+    key: string,
+    outcomes: PromiseSettledResult<boolean>[]
+  ): Promise<void> {
+    const failure = outcomes.find(
+      (outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected'
+    );
+    if (!failure) {
+      if (outcomes.some((outcome) => outcome.status === 'fulfilled' && outcome.value)) {
+        await this.markProcessed(key);
+      }
+
+      // Acknowledge message after successful processing
       try {
-        // Idempotency check
-        if (message.messageId && await this.isProcessed(message.messageId)) {
-          logger.debug('Message already processed, skipping', {
-            messageId: message.messageId,
-          });
-          await this.queue.deleteMessage(message.messageId);
-          continue;
-        }
+        await this.queue.acknowledgeMessage(message);
+      } catch (ackError) {
+        // If ack fails, log but don't throw (message might be processed already)
+        logger.warn('Failed to acknowledge message', {
+          messageId: message.messageId,
+          error: ackError instanceof Error ? ackError.message : String(ackError),
+        });
+      }
+      return;
+    }
 
-        await this.processMessage(message);
-
-        // Acknowledge message after successful processing
-        try {
-          await this.queue.acknowledgeMessage(message);
-        } catch (ackError) {
-          // If ack fails, log but don't throw (message might be processed already)
-          logger.warn('Failed to acknowledge message', {
-            messageId: message.messageId,
-            error: ackError instanceof Error ? ackError.message : String(ackError),
-          });
-        }
-      } catch (error) {
-        logger.error('Error processing message', {
+    const error = failure.reason;
+    logger.error('Error processing message', {
+      messageId: message.messageId,
+      type: message.type,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    // Retry at the back of the queue, or dead-letter once attempts run out
+    const attempts = (message.attempts ?? 0) + 1;
+    try {
+      if (attempts >= this.config.maxAttempts) {
+        logger.warn('Max attempts reached, dead-lettering message', {
           messageId: message.messageId,
           type: message.type,
-          error: error instanceof Error ? error.message : String(error),
+          attempts,
         });
-        // For RabbitMQ, nack the message (re-queue it for retry)
-        try {
-          await this.queue.nackMessage(message);
-        } catch (nackError) {
-          // If nack fails, log but don't throw (message will be retried by RabbitMQ)
-          logger.warn('Failed to nack message', {
-            messageId: message.messageId,
-            error: nackError instanceof Error ? nackError.message : String(nackError),
-          });
-        }
-        // Don't acknowledge on error - let message be retried
+        await this.queue.deadLetterMessage(
+          message,
+          error instanceof Error ? error.message : String(error),
+          attempts
+        );
+      } else {
+        await this.queue.retryMessage(message, attempts);
       }
+    } catch (retryError) {
+      // If this fails, log but don't throw (the unacked message is redelivered)
+      logger.warn('Failed to requeue message', {
+        messageId: message.messageId,
+        attempts,
+        error: retryError instanceof Error ? retryError.message : String(retryError),
+      });
     }
   }
 
@@ -178,19 +363,61 @@ export class ProcessorWorker {
   private async processMessage(message: QueueMessage): Promise<void> {
     switch (message.type) {
       case 'decision':
-        await this.processDecisionEvent(message.data as XRDecisionEvent);
+        await this.processDecisionEvent(message.data);
         break;
       case 'decisions':
-        await this.processDecisionEvents(message.data as XRDecisionEvent[]);
+        await this.processDecisionEvents(message.data);
         break;
       case 'run':
-        await this.processRun(message.data as XRRun);
+        await this.processRun(message.data);
         break;
       case 'step':
-        await this.processStep(message.data as XRStep);
+        await this.processStep(message.data);
         break;
       default:
-        logger.warn('Unknown message type', { type: message.type });
+        // Queue services can deliver anything
+        logger.warn('Unknown message type', { type: (message as { type: unknown }).type });
+    }
+  }
+
+  /**
+   * Rebuild the aggregation state a processed message left behind (runs,
+   * steps and events cached as if it had just been processed)
+   * 
+   * Nothing is written again except metrics only this worker can complete:
+   * steps it deferred waiting for the run, and the run's totals they change.
+   */
+  private async rehydrateMessage(message: QueueMessage): Promise<void> {
+    switch (message.type) {
+      case 'decision':
+        this.trackDecisionEvent(normalizeDecisionEvent(message.data));
+        break;
+      case 'decisions':
+        for (const event of message.data) {
+          this.trackDecisionEvent(normalizeDecisionEvent(event));
+        }
+        break;
+      case 'run': {
+        const run = normalizeRun(message.data);
+        const runKey = tenantKey(run, run.id);
+        this.runCache.set(runKey, run);
+        // The totals stored for this run didn't include the steps deferred here
+        const aggregated = await this.aggregateDeferredSteps(runKey);
+        if (aggregated > 0 && (run.status === 'completed' || run.status === 'failed')) {
+          await this.aggregateRunMetrics(runKey);
+        }
+        break;
+      }
+      case 'step': {
+        const step = normalizeStep(message.data);
+        const stepKey = tenantKey(step, step.id);
+        this.stepCache.set(stepKey, step);
+        // With its run cached its metrics were stored; without, they wait for it (no write)
+        if (step.completedAt && step.runId && !this.runCache.has(tenantKey(step, step.runId))) {
+          await this.aggregateStepMetrics(stepKey);
+        }
+        break;
+      }
     }
   }
 
@@ -198,16 +425,20 @@ export class ProcessorWorker {
    * Process a single decision event
    */
   private async processDecisionEvent(event: XRDecisionEvent): Promise<void> {
+    const key = `event:${tenantKey(event, event.id)}`;
+    if (await this.isProcessed(key)) {
+      // Written before a crash - only the in-memory aggregation state needs it
+      this.trackDecisionEvent(normalizeDecisionEvent(event));
+      return;
+    }
+
     logger.debug('Processing decision event', {
       eventId: event.id,
       runId: event.runId,
       stepId: event.stepId,
     });
 
-    // Normalize timestamp (handle JSON deserialization)
-    if (typeof event.timestamp === 'string') {
-      event.timestamp = new Date(event.timestamp);
-    }
+    normalizeDecisionEvent(event);
 
     // Store full payload in S3 (idempotent - deterministic key)
     const s3Key = await this.s3.storeDecisionEvent(event);
@@ -217,15 +448,24 @@ export class ProcessorWorker {
     });
 
     // Store reference in ClickHouse (links to S3)
-    const run = this.runCache.get(event.runId);
-    const pipelineId = run?.pipelineId || 'unknown';
+    const run = this.runCache.get(tenantKey(event, event.runId));
+    const pipelineId = run ? run.pipelineId : 'unknown';
     await this.clickhouse.storeDecisionEventReference(event, s3Key, pipelineId);
+    await this.markProcessed(key);
 
-    // Track event for step aggregation
-    if (!this.stepDecisionEvents.has(event.stepId)) {
-      this.stepDecisionEvents.set(event.stepId, []);
+    this.trackDecisionEvent(event);
+  }
+
+  /**
+   * Track an event for step aggregation (once per event ID, however often
+   * it's delivered)
+   */
+  private trackDecisionEvent(event: XRDecisionEvent): void {
+    const stepKey = tenantKey(event, event.stepId);
+    if (!this.stepDecisionEvents.has(stepKey)) {
+      this.stepDecisionEvents.set(stepKey, new Map());
     }
-    this.stepDecisionEvents.get(event.stepId)!.push(event);
+    this.stepDecisionEvents.get(stepKey)!.set(event.id, event);
   }
 
   /**
@@ -249,24 +489,20 @@ export class ProcessorWorker {
       status: run.status,
     });
 
-    // Normalize dates (handle JSON deserialization)
-    if (typeof run.startedAt === 'string') {
-      run.startedAt = new Date(run.startedAt);
-    }
-    if (run.completedAt && typeof run.completedAt === 'string') {
-      run.completedAt = new Date(run.completedAt);
-    }
+    normalizeRun(run);
 
     // Store full payload in S3
     const s3Key = await this.s3.storeRun(run);
     logger.debug('Run stored in S3', { runId: run.id, s3Key });
 
     // Cache run for aggregation
-    this.runCache.set(run.id, run);
+    const runKey = tenantKey(run, run.id);
+    this.runCache.set(runKey, run);
+    await this.aggregateDeferredSteps(runKey);
 
     // If run is completed, calculate and store aggregated metrics
     if (run.status === 'completed' || run.status === 'failed') {
-      await this.aggregateRunMetrics(run.id);
+      await this.aggregateRunMetrics(runKey);
     }
   }
 
@@ -276,69 +512,56 @@ export class ProcessorWorker {
   private async processStep(step: XRStep): Promise<void> {
     logger.debug('Processing step', {
       stepId: step.id,
+      runId: step.runId,
       type: step.type,
       name: step.name,
     });
 
-    // Normalize dates (handle JSON deserialization)
-    if (typeof step.startedAt === 'string') {
-      step.startedAt = new Date(step.startedAt);
-    }
-    if (step.completedAt && typeof step.completedAt === 'string') {
-      step.completedAt = new Date(step.completedAt);
-    }
+    normalizeStep(step);
 
     // Store full payload in S3
-    // Need runId - try to get from cache or metadata
-    const runId = (step as any).runId || 'unknown';
-    const s3Key = await this.s3.storeStep(step, runId);
-    logger.debug('Step stored in S3', { stepId: step.id, s3Key });
+    const s3Key = await this.s3.storeStep(step);
+    logger.debug('Step stored in S3', { stepId: step.id, runId: step.runId, s3Key });
 
     // Cache step for aggregation
-    this.stepCache.set(step.id, step);
+    const stepKey = tenantKey(step, step.id);
+    this.stepCache.set(stepKey, step);
 
     // If step is completed, calculate and store aggregated metrics
     if (step.completedAt) {
-      await this.aggregateStepMetrics(step.id);
+      await this.aggregateStepMetrics(stepKey);
     }
   }
 
   /**
    * Aggregate step metrics and store in ClickHouse
    */
-  private async aggregateStepMetrics(stepId: string): Promise<void> {
-    const step = this.stepCache.get(stepId);
+  private async aggregateStepMetrics(stepKey: string): Promise<void> {
+    const step = this.stepCache.get(stepKey);
     if (!step) {
-      logger.warn('Step not found in cache', { stepId });
+      logger.warn('Step not found in cache', { stepKey });
       return;
     }
 
-    const runId = (step as any).runId;
+    const stepId = step.id;
+    const runId = step.runId;
     if (!runId) {
       logger.warn('Step missing runId', { stepId });
       return;
     }
 
-    // Wait a bit for run to be processed (race condition: step might arrive before run)
-    let run = this.runCache.get(runId);
-    if (!run) {
-      // Wait up to 5 seconds for run to appear
-      for (let i = 0; i < 10; i++) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-        run = this.runCache.get(runId);
-        if (run) break;
-      }
-    }
-
+    // Step arrived before its run (of the same tenant): aggregate once the run is processed
+    const runKey = tenantKey(step, runId);
+    const run = this.runCache.get(runKey);
     if (!run) {
-      logger.warn('Run not found in cache after waiting', {
-        stepId,
-        runId,
-      });
+      const deferred = this.deferredSteps.get(runKey) ?? { stepKeys: new Set<string>(), since: Date.now() };
+      deferred.stepKeys.add(stepKey);
+      this.deferredSteps.set(runKey, deferred);
+      logger.debug('Run not processed yet, deferring step metrics', { stepId, runId, tenantId: step.tenantId });
       return;
     }
 
-    const decisionEvents = this.stepDecisionEvents.get(stepId) || [];
+    const decisionEvents = [...(this.stepDecisionEvents.get(stepKey)?.values() ?? [])];
     const metrics = this.clickhouse.calculateStepMetrics(step, run, decisionEvents);
 
     await this.clickhouse.storeStepMetrics(metrics);
@@ -350,21 +573,53 @@ export class ProcessorWorker {
     });
   }
 
+  /**
+   * Aggregate the completed steps that arrived before their run (returns how many)
+   */
+  private async aggregateDeferredSteps(runKey: string): Promise<number> {
+    const deferred = this.deferredSteps.get(runKey);
+    if (!deferred) {
+      return 0;
+    }
+    this.deferredSteps.delete(runKey);
+    for (const stepKey of deferred.stepKeys) {
+      await this.aggregateStepMetrics(stepKey);
+    }
+    return deferred.stepKeys.size;
+  }
+
+  /**
+   * Give up on deferred steps whose run never arrived
+   */
+  private expireDeferredSteps(): void {
+    const cutoff = Date.now() - DEFERRED_STEP_TIMEOUT_MS;
+    for (const [runKey, deferred] of this.deferredSteps) {
+      if (deferred.since < cutoff) {
+        this.deferredSteps.delete(runKey);
+        logger.warn('Run not found for deferred steps, dropping their metrics', {
+          runKey,
+          stepKeys: [...deferred.stepKeys],
+        });
+      }
+    }
+  }
+
   /**
    * Aggregate run metrics and store in ClickHouse
    */
-  private async aggregateRunMetrics(runId: string): Promise<void> {
-    const run = this.runCache.get(runId);
+  private async aggregateRunMetrics(runKey: string): Promise<void> {
+    const run = this.runCache.get(runKey);
     if (!run) {
-      logger.warn('Run not found in cache', { runId });
+      logger.warn('Run not found in cache', { runKey });
       return;
     }
+    const runId = run.id;
 
-    // Collect all step metrics for this run
+    // Collect all step metrics for this run (of the same tenant)
     const stepMetrics: any[] = [];
-    for (const [stepId, step] of this.stepCache.entries()) {
-      if ((step as any).runId === runId) {
-        const decisionEvents = this.stepDecisionEvents.get(stepId) || [];
+    for (const [stepKey, step] of this.stepCache.entries()) {
+      if (step.runId && tenantKey(step, step.runId) === runKey) {
+        const decisionEvents = [...(this.stepDecisionEvents.get(stepKey)?.values() ?? [])];
         const metrics = this.clickhouse.calculateStepMetrics(step, run, decisionEvents);
         stepMetrics.push(metrics);
       }
@@ -382,14 +637,119 @@ export class ProcessorWorker {
   }
 
   /**
-   * Check if message was already processed (idempotency)
+   * Check if a message or event was already processed (idempotency)
    * 
-   * Trade-off: Simple in-memory check. For production, use Redis or database
-   * for distributed idempotency tracking.
+   * Trade-off: On a store failure the work is done again - a duplicate beats
+   * a lost message.
+   */
+  private async isProcessed(key: string): Promise<boolean> {
+    try {
+      return await this.processed.has(key);
+    } catch (error) {
+      logger.warn('Processed-message store lookup failed', {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Record a processed message or event (the writes are done either way, so
+   * a failure here is only logged)
    */
-  private async isProcessed(messageId: string): Promise<boolean> {
-    // In production, check Redis/database
-    return false; // For MVP, always process
+  private async markProcessed(key: string): Promise<void> {
+    try {
+      await this.processed.mark(key);
+    } catch (error) {
+      logger.warn('Failed to record processed key', {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Dates arrive as strings off the wire (JSON) - convert them in place
+ */
+function normalizeRun(run: XRRun): XRRun {
+  if (typeof run.startedAt === 'string') {
+    run.startedAt = new Date(run.startedAt);
+  }
+  if (run.completedAt && typeof run.completedAt === 'string') {
+    run.completedAt = new Date(run.completedAt);
+  }
+  return run;
+}
+
+function normalizeStep(step: XRStep): XRStep {
+  if (typeof step.startedAt === 'string') {
+    step.startedAt = new Date(step.startedAt);
+  }
+  if (step.completedAt && typeof step.completedAt === 'string') {
+    step.completedAt = new Date(step.completedAt);
+  }
+  return step;
+}
+
+function normalizeDecisionEvent(event: XRDecisionEvent): XRDecisionEvent {
+  if (typeof event.timestamp === 'string') {
+    event.timestamp = new Date(event.timestamp);
+  }
+  return event;
+}
+
+/**
+ * Lane of a message: its run, within its tenant (messages without one get
+ * their own lane)
+ * 
+ * A decisions batch goes by its first event - split it with splitByRun first.
+ */
+function partitionOf(message: QueueMessage): string {
+  if (message.type === 'run') {
+    return tenantKey(message.data, message.data.id);
+  }
+  const record = message.type === 'decisions' ? message.data[0] : message.data;
+  return record?.runId ? tenantKey(record, record.runId) : message.messageId ?? '';
+}
+
+/**
+ * Parts of a message, one per run: a decisions batch whose events belong to
+ * several runs (or tenants) is split, anything else is one part
+ */
+function splitByRun(message: QueueMessage): QueueMessage[] {
+  if (message.type !== 'decisions' || !Array.isArray(message.data)) {
+    return [message];
   }
+
+  const byRun = new Map<string, XRDecisionEvent[]>();
+  for (const event of message.data) {
+    const runKey = tenantKey(event, event.runId);
+    const events = byRun.get(runKey);
+    if (events) {
+      events.push(event);
+    } else {
+      byRun.set(runKey, [event]);
+    }
+  }
+  if (byRun.size <= 1) {
+    return [message];
+  }
+  return [...byRun.values()].map((data) => ({ ...message, data }));
+}
+
+/**
+ * Idempotency key of a message: its type and payload
+ * 
+ * Not `messageId` - brokers don't all set one, and runs and steps are re-sent
+ * under the same ID as they progress.
+ */
+function messageKey(message: QueueMessage): string {
+  const digest = createHash('sha256')
+    .update(message.type)
+    .update(JSON.stringify(message.data))
+    .digest('hex');
+  return `message:${digest}`;
 }
 
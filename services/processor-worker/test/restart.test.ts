@@ -0,0 +1,274 @@
+/**
+ * Exactly-once effects across a worker restart
+ *
+ * A worker is stopped in the middle of a decision event batch (its S3 write
+ * for one event never returns, as if the process died there), then a new
+ * worker starts on the same processed-message journal and gets every message
+ * again - the broker redelivers whatever wasn't acked. Every S3 write and
+ * every ClickHouse insert must have happened exactly once across both.
+ *
+ * The second worker skips what the first one finished, so the test also
+ * checks it still aggregates as if it had seen everything: decision rows carry
+ * the run's pipeline, and step and run metrics count the whole batch.
+ *
+ * Trade-off: Storage is faked one level above the SDK clients (the public
+ * store methods), so the test counts writes the worker asks for, not requests
+ * on the wire - which is what idempotency is about.
+ *
+ * Type-checked by `npm run build` (test/tsconfig.json). Run: npm test
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import {
+  XRDecisionEvent,
+  XRDecisionOutcome,
+  XRRun,
+  XRRunStatus,
+  XRStep,
+  XRStepType,
+} from '@xray/shared-types';
+import { ClickHouseStorage, RunMetrics, StepMetrics } from '../src/clickhouse';
+import { FileProcessedStore } from '../src/processed-store';
+import { InMemoryQueue, QueuePayload } from '../src/queue';
+import { S3Storage } from '../src/s3';
+import { ProcessorWorker } from '../src/worker';
+
+const EVENT_COUNT = 10;
+const CRASH_AT_EVENT = 5; // 1-based: events before it are written, it never is
+const TIMEOUT_MS = 5000;
+
+/**
+ * S3 writes, by what was written - hangs at `crashAt` when set
+ */
+class RecordingS3 extends S3Storage {
+  writes: string[] = [];
+  private crashAt: string | undefined;
+  private onCrash: () => void;
+
+  constructor(crashAt?: string, onCrash: () => void = () => undefined) {
+    super({ region: 'us-east-1', accessKeyId: 'test', secretAccessKey: 'test', bucket: 'test' });
+    this.crashAt = crashAt;
+    this.onCrash = onCrash;
+  }
+
+  async storeDecisionEvent(event: XRDecisionEvent): Promise<string> {
+    return this.write(`event:${event.id}`);
+  }
+
+  async storeRun(run: XRRun): Promise<string> {
+    return this.write(`run:${run.id}:${run.status}`);
+  }
+
+  async storeStep(step: XRStep): Promise<string> {
+    return this.write(`step:${step.id}:${step.completedAt ? 'completed' : 'started'}`);
+  }
+
+  private write(object: string): Promise<string> {
+    if (object === this.crashAt) {
+      this.onCrash();
+      return new Promise(() => undefined);
+    }
+    this.writes.push(object);
+    return Promise.resolve(object);
+  }
+}
+
+/**
+ * ClickHouse inserts, by table and row - and what was inserted
+ */
+class RecordingClickHouse extends ClickHouseStorage {
+  inserts: string[] = [];
+  runMetrics: RunMetrics[] = [];
+  stepMetrics: StepMetrics[] = [];
+  decisionPipelines: Map<string, string> = new Map(); // event ID -> pipeline ID
+
+  constructor() {
+    super({ host: 'localhost', port: 8123, database: 'test', user: 'default', password: '' });
+  }
+
+  async storeRunMetrics(metrics: RunMetrics): Promise<void> {
+    this.inserts.push(`runs:${metrics.runId}`);
+    this.runMetrics.push(metrics);
+  }
+
+  async storeStepMetrics(metrics: StepMetrics): Promise<void> {
+    this.inserts.push(`steps:${metrics.stepId}`);
+    this.stepMetrics.push(metrics);
+  }
+
+  async storeDecisionEventReference(
+    event: XRDecisionEvent,
+    _s3Key: string,
+    pipelineId: string
+  ): Promise<void> {
+    this.inserts.push(`decision_events:${event.id}`);
+    this.decisionPipelines.set(event.id, pipelineId);
+  }
+}
+
+/**
+ * One run: started, a filter step over EVENT_COUNT items, completed
+ */
+function runMessages(): QueuePayload[] {
+  const startedAt = new Date('2024-01-01T00:00:00Z');
+  const completedAt = new Date('2024-01-01T00:00:01Z');
+  const run: XRRun = {
+    id: 'run-1',
+    pipelineId: 'pipeline-1',
+    status: XRRunStatus.RUNNING,
+    input: {},
+    output: null,
+    startedAt,
+    completedAt: null,
+    error: null,
+  };
+  const step: XRStep = {
+    id: 'step-1',
+    runId: run.id,
+    type: XRStepType.FILTER,
+    name: 'filter',
+    startedAt,
+    completedAt: null,
+  };
+  const events: XRDecisionEvent[] = Array.from({ length: EVENT_COUNT }, (_, i) => ({
+    id: `event-${i + 1}`,
+    stepId: step.id,
+    runId: run.id,
+    outcome: i % 2 === 0 ? XRDecisionOutcome.KEPT : XRDecisionOutcome.ELIMINATED,
+    itemId: `item-${i + 1}`,
+    input: { score: i },
+    output: null,
+    reason: 'score threshold',
+    timestamp: startedAt,
+  }));
+
+  return [
+    { type: 'run', data: run },
+    { type: 'step', data: step },
+    { type: 'decisions', data: events },
+    { type: 'step', data: { ...step, completedAt } },
+    { type: 'run', data: { ...run, status: XRRunStatus.COMPLETED, output: {}, completedAt } },
+  ];
+}
+
+/**
+ * A fresh queue holding every message, as JSON off the wire (the worker
+ * normalizes payloads in place)
+ */
+function deliverAll(messages: QueuePayload[]): InMemoryQueue {
+  const queue = new InMemoryQueue();
+  for (const message of messages) {
+    queue.add(JSON.parse(JSON.stringify(message)));
+  }
+  return queue;
+}
+
+function startWorker(
+  s3: S3Storage,
+  clickhouse: ClickHouseStorage,
+  queue: InMemoryQueue,
+  processed: FileProcessedStore
+): ProcessorWorker {
+  const worker = new ProcessorWorker(clickhouse, s3, queue, processed, { pollIntervalMs: 5 });
+  worker.start();
+  return worker;
+}
+
+async function waitFor(condition: () => boolean, what: string): Promise<void> {
+  const deadline = Date.now() + TIMEOUT_MS;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${what}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+function duplicates(values: string[]): string[] {
+  return values.filter((value, i) => values.indexOf(value) !== i);
+}
+
+test('a worker restarted mid-batch on the same journal writes everything exactly once', async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'xray-worker-restart-'));
+  const journal = path.join(dir, 'processed.ndjson');
+  const messages = runMessages();
+  const clickhouse = new RecordingClickHouse();
+
+  try {
+    // First worker: dies during the S3 write of one event in the batch
+    let crashed = false;
+    const crashingS3 = new RecordingS3(`event:event-${CRASH_AT_EVENT}`, () => {
+      crashed = true;
+    });
+    const firstStore = new FileProcessedStore(journal);
+    await firstStore.initialize();
+    const first = startWorker(crashingS3, clickhouse, deliverAll(messages), firstStore);
+    await waitFor(() => crashed, 'the first worker to reach the crash point');
+    // Its lane never finishes - stop polling without waiting for it
+    void first.stop();
+    await firstStore.close();
+
+    assert.equal(
+      crashingS3.writes.filter((write) => write.startsWith('event:')).length,
+      CRASH_AT_EVENT - 1,
+      'the first worker stopped partway through the batch'
+    );
+
+    // Second worker: same journal, every message redelivered (no acks survived)
+    const s3 = new RecordingS3();
+    const secondStore = new FileProcessedStore(journal);
+    await secondStore.initialize();
+    const second = startWorker(s3, clickhouse, deliverAll(messages), secondStore);
+    await waitFor(
+      () => clickhouse.inserts.includes('runs:run-1'),
+      'the second worker to store the run metrics'
+    );
+    await second.stop();
+    await secondStore.close();
+
+    const s3Writes = [...crashingS3.writes, ...s3.writes];
+    const expectedS3 = [
+      'run:run-1:running',
+      'step:step-1:started',
+      ...Array.from({ length: EVENT_COUNT }, (_, i) => `event:event-${i + 1}`),
+      'step:step-1:completed',
+      'run:run-1:completed',
+    ];
+    assert.deepEqual(duplicates(s3Writes), [], 'no S3 object written twice');
+    assert.deepEqual([...s3Writes].sort(), [...expectedS3].sort(), 'every S3 object written');
+
+    const expectedInserts = [
+      ...Array.from({ length: EVENT_COUNT }, (_, i) => `decision_events:event-${i + 1}`),
+      'steps:step-1',
+      'runs:run-1',
+    ];
+    assert.deepEqual(duplicates(clickhouse.inserts), [], 'no ClickHouse row inserted twice');
+    assert.deepEqual(
+      [...clickhouse.inserts].sort(),
+      [...expectedInserts].sort(),
+      'every ClickHouse row inserted'
+    );
+
+    // Rows written by the second worker still know the run it never processed
+    assert.deepEqual(
+      [...new Set(clickhouse.decisionPipelines.values())],
+      ['pipeline-1'],
+      'every decision row carries the run\'s pipeline'
+    );
+
+    // Events the first worker wrote still count toward the step and the run
+    const kept = Math.ceil(EVENT_COUNT / 2);
+    const [stepMetrics] = clickhouse.stepMetrics;
+    assert.equal(stepMetrics.inputCount, EVENT_COUNT, 'step input counts every event');
+    assert.equal(stepMetrics.outputCount, kept, 'step output counts every kept event');
+    const [runMetrics] = clickhouse.runMetrics;
+    assert.equal(runMetrics.totalInputCount, EVENT_COUNT, 'run input counts every event');
+    assert.equal(runMetrics.totalOutputCount, kept, 'run output counts every kept event');
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
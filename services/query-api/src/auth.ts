@@ -0,0 +1,56 @@
+/**
+ * API key authentication for queries
+ *
+ * Same keys as the ingestion API (`XRAY_API_KEYS_FILE` / `XRAY_API_KEYS`, both
+ * services load the root .env and parse it with the loader in @xray/server-auth). A key resolves to its tenant and every query is
+ * scoped to it via `res.locals.tenantId` - a key can only read what it wrote.
+ *
+ * Trade-off: With no keys configured, auth is off and queries see the default
+ * tenant only (single-tenant setups, where everything lives there anyway).
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ApiKeyConfig, DEFAULT_TENANT_ID } from '@xray/shared-types';
+import { apiKeyDigest } from '@xray/server-auth';
+import { logger } from './logger';
+
+export { loadApiKeys } from '@xray/server-auth';
+
+function requestKey(req: Request): string | undefined {
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string' && header) {
+    return header;
+  }
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return undefined;
+}
+
+/**
+ * Authenticate requests and resolve their tenant into `res.locals.tenantId`
+ */
+export function apiKeyAuth(keys: Map<string, ApiKeyConfig>): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (keys.size === 0) {
+      res.locals.tenantId = DEFAULT_TENANT_ID;
+      return next();
+    }
+
+    const key = requestKey(req);
+    const apiKey = key ? keys.get(apiKeyDigest(key)) : undefined;
+    if (!apiKey) {
+      if (key) {
+        logger.warn('Rejected request with unknown API key', { path: req.originalUrl });
+      }
+      return res.status(401).json({
+        success: false,
+        error: key ? 'Invalid API key' : 'Missing API key (X-API-Key header or Authorization: Bearer)',
+      });
+    }
+
+    res.locals.tenantId = apiKey.tenantId;
+    next();
+  };
+}
@@ -4,6 +4,7 @@
  * Three tables: runs (pipeline executions), steps (step metrics), decision_events (item decisions).
  * We denormalize run_id/step_id into each table to avoid joins - ClickHouse is much faster with single-table queries.
  * Full payloads go to S3, ClickHouse just stores references and metrics.
+ * Every query is scoped to one tenant (tenant_id) - callers pass the tenant of the request's API key.
  */
 
 import { createClient, ClickHouseClient } from '@clickhouse/client';
@@ -33,6 +34,8 @@ export interface RunRow {
 export interface StepRow {
   step_id: string;
   run_id: string;
+  parent_step_id: string | null;
+  depth: number;
   pipeline_id: string;
   step_type: string;
   step_name: string;
@@ -42,6 +45,11 @@ export interface StepRow {
   kept_count: number;
   eliminated_count: number;
   scored_count: number;
+  modified_count: number;
+  added_count: number;
+  merged_count: number;
+  errored_count: number;
+  mean_rank_displacement: number;
   started_at: string;
   completed_at: string | null;
 }
@@ -96,6 +104,7 @@ export class ClickHouseQuery {
    * Get runs, optionally filtered for bad ones (high elimination ratio, failed, or errors)
    */
   async queryRuns(
+    tenantId: string,
     badFilter: boolean = false,
     limit: number = 100,
     offset: number = 0
@@ -118,7 +127,7 @@ export class ClickHouseQuery {
         FINAL
       `;
 
-      const conditions: string[] = [];
+      const conditions: string[] = ['tenant_id = {tenantId:String}'];
 
       if (badFilter) {
         conditions.push(
@@ -126,15 +135,13 @@ export class ClickHouseQuery {
         );
       }
 
-      if (conditions.length > 0) {
-        query += ` WHERE ${conditions.join(' AND ')}`;
-      }
+      query += ` WHERE ${conditions.join(' AND ')}`;
 
       query += ` ORDER BY started_at DESC LIMIT {limit:UInt64} OFFSET {offset:UInt64}`;
 
       const result = await this.client.query({
         query,
-        query_params: { limit, offset },
+        query_params: { tenantId, limit, offset },
         format: 'JSONEachRow',
       });
 
@@ -155,7 +162,7 @@ export class ClickHouseQuery {
   /**
    * Get a run by ID. FINAL ensures we get the latest version from ReplacingMergeTree.
    */
-  async getRunById(runId: string): Promise<RunRow | null> {
+  async getRunById(tenantId: string, runId: string): Promise<RunRow | null> {
     try {
       const result = await this.client.query({
         query: `
@@ -173,10 +180,10 @@ export class ClickHouseQuery {
             metadata
           FROM ${this.database}.runs
           FINAL
-          WHERE run_id = {runId:String}
+          WHERE tenant_id = {tenantId:String} AND run_id = {runId:String}
           LIMIT 1
         `,
-        query_params: { runId },
+        query_params: { tenantId, runId },
         format: 'JSONEachRow',
       });
 
@@ -192,13 +199,15 @@ export class ClickHouseQuery {
   /**
    * Get all steps for a run. No join needed - run_id is in the steps table.
    */
-  async getStepsByRunId(runId: string): Promise<StepRow[]> {
+  async getStepsByRunId(tenantId: string, runId: string): Promise<StepRow[]> {
     try {
       const result = await this.client.query({
         query: `
           SELECT
             step_id,
             run_id,
+            parent_step_id,
+            depth,
             pipeline_id,
             step_type,
             step_name,
@@ -208,14 +217,19 @@ export class ClickHouseQuery {
             kept_count,
             eliminated_count,
             scored_count,
+            modified_count,
+            added_count,
+            merged_count,
+            errored_count,
+            mean_rank_displacement,
             started_at,
             completed_at
           FROM ${this.database}.steps
           FINAL
-          WHERE run_id = {runId:String}
+          WHERE tenant_id = {tenantId:String} AND run_id = {runId:String}
           ORDER BY started_at ASC
         `,
-        query_params: { runId },
+        query_params: { tenantId, runId },
         format: 'JSONEachRow',
       });
 
@@ -231,13 +245,15 @@ export class ClickHouseQuery {
   /**
    * Get a step by ID
    */
-  async getStepById(stepId: string): Promise<StepRow | null> {
+  async getStepById(tenantId: string, stepId: string): Promise<StepRow | null> {
     try {
       const result = await this.client.query({
         query: `
           SELECT
             step_id,
             run_id,
+            parent_step_id,
+            depth,
             pipeline_id,
             step_type,
             step_name,
@@ -247,14 +263,19 @@ export class ClickHouseQuery {
             kept_count,
             eliminated_count,
             scored_count,
+            modified_count,
+            added_count,
+            merged_count,
+            errored_count,
+            mean_rank_displacement,
             started_at,
             completed_at
           FROM ${this.database}.steps
           FINAL
-          WHERE step_id = {stepId:String}
+          WHERE tenant_id = {tenantId:String} AND step_id = {stepId:String}
           LIMIT 1
         `,
-        query_params: { stepId },
+        query_params: { tenantId, stepId },
         format: 'JSONEachRow',
       });
 
@@ -270,6 +291,7 @@ export class ClickHouseQuery {
    * Get decision events for a step. Returns S3 keys, not full payloads.
    */
   async getDecisionEventsByStepId(
+    tenantId: string,
     stepId: string,
     limit: number = 100
   ): Promise<DecisionEventRow[]> {
@@ -288,11 +310,11 @@ export class ClickHouseQuery {
             s3_key
           FROM ${this.database}.decision_events
           FINAL
-          WHERE step_id = {stepId:String}
+          WHERE tenant_id = {tenantId:String} AND step_id = {stepId:String}
           ORDER BY timestamp ASC
           LIMIT {limit:UInt64}
         `,
-        query_params: { stepId, limit },
+        query_params: { tenantId, stepId, limit },
         format: 'JSONEachRow',
       });
 
@@ -309,6 +331,7 @@ export class ClickHouseQuery {
    * was kept/eliminated. Returns S3 keys to fetch full payloads if needed.
    */
   async getDecisionEventsByItemId(
+    tenantId: string,
     runId: string,
     itemId: string,
     limit: number = 1000
@@ -328,11 +351,11 @@ export class ClickHouseQuery {
             s3_key
           FROM ${this.database}.decision_events
           FINAL
-          WHERE run_id = {runId:String} AND item_id = {itemId:String}
+          WHERE tenant_id = {tenantId:String} AND run_id = {runId:String} AND item_id = {itemId:String}
           ORDER BY timestamp ASC
           LIMIT {limit:UInt64}
         `,
-        query_params: { runId, itemId, limit },
+        query_params: { tenantId, runId, itemId, limit },
         format: 'JSONEachRow',
       });
 
@@ -21,6 +21,7 @@ import { S3Client } from './s3';
 import { createRunRoutes } from './routes/runs';
 import { createStepRoutes } from './routes/steps';
 import { logger } from './logger';
+import { apiKeyAuth, loadApiKeys } from './auth';
 
 const PORT = parseInt(process.env.PORT || '3001', 10);
 
@@ -47,6 +48,12 @@ async function main() {
   });
   logger.info('AWS S3 initialized');
 
+  // API keys - each key reads only its own tenant's data
+  const apiKeys = loadApiKeys();
+  logger.info(apiKeys.size > 0 ? 'API key auth enabled' : 'No API keys configured - serving the default tenant', {
+    keys: apiKeys.size,
+  });
+
   // Create Express app
   const app = express();
 
@@ -63,9 +70,9 @@ async function main() {
     next();
   });
 
-  // Routes
-  app.use('/runs', createRunRoutes(clickhouse, s3));
-  app.use('/steps', createStepRoutes(clickhouse, s3));
+  // Routes (scoped to the caller's tenant)
+  app.use('/runs', apiKeyAuth(apiKeys), createRunRoutes(clickhouse, s3));
+  app.use('/steps', apiKeyAuth(apiKeys), createStepRoutes(clickhouse, s3));
 
   // Health check
   app.get('/health', (req, res) => {
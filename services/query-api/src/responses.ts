@@ -27,6 +27,8 @@ export interface RunDetail extends RunListItem {
 export interface StepListItem {
   id: string;
   runId: string;
+  parentStepId: string | null;
+  depth: number;
   pipelineId: string;
   type: string;
   name: string;
@@ -39,6 +41,11 @@ export interface StepListItem {
     keptCount: number;
     eliminatedCount: number;
     scoredCount: number;
+    modifiedCount: number;
+    addedCount: number;
+    mergedCount: number;
+    erroredCount: number;
+    meanRankDisplacement: number;
   };
 }
 
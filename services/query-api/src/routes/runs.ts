@@ -25,6 +25,7 @@ export function createRunRoutes(
    * Response: Array of run list items (analytics only, no raw payloads)
    */
   router.get('/', async (req: Request, res: Response) => {
+    const tenantId: string = res.locals.tenantId;
     try {
       const badFilter = req.query.bad_filter === 'true';
       const limit = parseInt(req.query.limit as string) || 100;
@@ -32,7 +33,7 @@ export function createRunRoutes(
 
       logger.debug('Querying runs', { badFilter, limit, offset });
 
-      const rows = await clickhouse.queryRuns(badFilter, limit, offset);
+      const rows = await clickhouse.queryRuns(tenantId, badFilter, limit, offset);
 
       const runs: RunListItem[] = rows.map((row) => ({
         id: row.run_id,
@@ -75,6 +76,7 @@ export function createRunRoutes(
    * Only fetch from S3 when explicitly requested.
    */
   router.get('/:id', async (req: Request, res: Response) => {
+    const tenantId: string = res.locals.tenantId;
     try {
       const runId = req.params.id;
       const includeRaw = req.query.include_raw === 'true';
@@ -82,7 +84,7 @@ export function createRunRoutes(
       logger.debug('Getting run', { runId, includeRaw });
 
       // Query ClickHouse for run metrics
-      const runRow = await clickhouse.getRunById(runId);
+      const runRow = await clickhouse.getRunById(tenantId, runId);
       if (!runRow) {
         return res.status(404).json({
           success: false,
@@ -91,13 +93,13 @@ export function createRunRoutes(
       }
 
       // Query ClickHouse for steps (no join - separate query)
-      const stepRows = await clickhouse.getStepsByRunId(runId);
+      const stepRows = await clickhouse.getStepsByRunId(tenantId, runId);
 
       // Optionally fetch raw payload from S3
       let rawPayload: unknown = undefined;
       if (includeRaw) {
         const startedAt = new Date(runRow.started_at);
-        const s3Key = s3.getRunKey(runId, startedAt);
+        const s3Key = s3.getRunKey(tenantId, runId, startedAt);
         rawPayload = await s3.getRun(s3Key);
         if (!rawPayload) {
           logger.warn('Raw run payload not found in S3', { runId, s3Key });
@@ -120,6 +122,8 @@ export function createRunRoutes(
         steps: stepRows.map((step) => ({
           id: step.step_id,
           runId: step.run_id,
+          parentStepId: step.parent_step_id,
+          depth: step.depth,
           pipelineId: step.pipeline_id,
           type: step.step_type,
           name: step.step_name,
@@ -132,6 +136,11 @@ export function createRunRoutes(
             keptCount: step.kept_count,
             eliminatedCount: step.eliminated_count,
             scoredCount: step.scored_count,
+            modifiedCount: step.modified_count,
+            addedCount: step.added_count,
+            mergedCount: step.merged_count,
+            erroredCount: step.errored_count,
+            meanRankDisplacement: step.mean_rank_displacement,
           },
         })),
         rawPayload,
@@ -25,6 +25,7 @@ export function createStepRoutes(
    * This keeps default response fast while allowing full traceability when needed.
    */
   router.get('/:id/details', async (req: Request, res: Response) => {
+    const tenantId: string = res.locals.tenantId;
     try {
       const stepId = req.params.id;
       const includeRaw = req.query.include_raw === 'true';
@@ -37,7 +38,7 @@ export function createStepRoutes(
       });
 
       // Query ClickHouse for step metrics
-      const stepRow = await clickhouse.getStepById(stepId);
+      const stepRow = await clickhouse.getStepById(tenantId, stepId);
       if (!stepRow) {
         return res.status(404).json({
           success: false,
@@ -47,6 +48,7 @@ export function createStepRoutes(
 
       // Query ClickHouse for decision events (no join - separate query)
       const decisionEventRows = await clickhouse.getDecisionEventsByStepId(
+        tenantId,
         stepId,
         decisionLimit
       );
@@ -82,7 +84,7 @@ export function createStepRoutes(
 
       if (includeRaw) {
         const startedAt = new Date(stepRow.started_at);
-        const s3Key = s3.getStepKey(stepId, startedAt);
+        const s3Key = s3.getStepKey(tenantId, stepRow.run_id, stepId, startedAt);
         rawPayload = await s3.getStep(s3Key);
         if (!rawPayload) {
           logger.warn('Raw step payload not found in S3', { stepId, s3Key });
@@ -92,6 +94,8 @@ export function createStepRoutes(
       const step: StepDetail = {
         id: stepRow.step_id,
         runId: stepRow.run_id,
+        parentStepId: stepRow.parent_step_id,
+        depth: stepRow.depth,
         pipelineId: stepRow.pipeline_id,
         type: stepRow.step_type,
         name: stepRow.step_name,
@@ -104,6 +108,11 @@ export function createStepRoutes(
           keptCount: stepRow.kept_count,
           eliminatedCount: stepRow.eliminated_count,
           scoredCount: stepRow.scored_count,
+          modifiedCount: stepRow.modified_count,
+          addedCount: stepRow.added_count,
+          mergedCount: stepRow.merged_count,
+          erroredCount: stepRow.errored_count,
+          meanRankDisplacement: stepRow.mean_rank_displacement,
         },
         decisionEvents,
         rawPayload,
@@ -6,7 +6,7 @@
  */
 
 import { S3Client as AWSS3Client, GetObjectCommand } from '@aws-sdk/client-s3';
-import { XRDecisionEvent, XRRun, XRStep } from '@xray/shared-types';
+import { DEFAULT_TENANT_ID, XRDecisionEvent, XRRun, XRStep } from '@xray/shared-types';
 
 export interface S3Config {
   region: string;
@@ -144,25 +144,33 @@ export class S3Client {
     }
   }
 
+  /**
+   * Key prefix for a tenant's objects (default tenant: none - the pre-tenant layout)
+   * (Matches format used in processor-worker)
+   */
+  private tenantPrefix(tenantId: string): string {
+    return tenantId === DEFAULT_TENANT_ID ? '' : `tenants/${tenantId}/`;
+  }
+
   /**
    * Generate S3 key from run ID and timestamp
    * (Matches format used in processor-worker)
    */
-  getRunKey(runId: string, startedAt: Date): string {
+  getRunKey(tenantId: string, runId: string, startedAt: Date): string {
     const year = startedAt.getFullYear();
     const month = String(startedAt.getMonth() + 1).padStart(2, '0');
     const day = String(startedAt.getDate()).padStart(2, '0');
-    return `runs/${year}/${month}/${day}/${runId}.json`;
+    return `${this.tenantPrefix(tenantId)}runs/${year}/${month}/${day}/${runId}.json`;
   }
 
   /**
-   * Generate S3 key from step ID and timestamp
+   * Generate S3 key from run ID, step ID and timestamp
    */
-  getStepKey(stepId: string, startedAt: Date): string {
+  getStepKey(tenantId: string, runId: string, stepId: string, startedAt: Date): string {
     const year = startedAt.getFullYear();
     const month = String(startedAt.getMonth() + 1).padStart(2, '0');
     const day = String(startedAt.getDate()).padStart(2, '0');
-    return `steps/${year}/${month}/${day}/${stepId}.json`;
+    return `${this.tenantPrefix(tenantId)}steps/${year}/${month}/${day}/${runId}/${stepId}.json`;
   }
 }
 